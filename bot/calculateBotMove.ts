@@ -1,9 +1,16 @@
 
-import { Entity, Hex, HexCoord, WinCondition, BotAction, Difficulty, BotMemory } from '../types';
-import { getLevelConfig, GAME_CONFIG, DIFFICULTY_SETTINGS } from '../rules/config';
-import { getHexKey, cubeDistance, findPath, getNeighbors } from '../services/hexUtils';
+import { Entity, Hex, HexCoord, WinCondition, BotAction, Difficulty, BotMemory, BotGoal } from '../types';
+import { getLevelConfig, DIFFICULTY_SETTINGS, GAME_CONFIG } from '../rules/config';
+import { getHexKey, cubeDistance, findPath, getNeighbors, getReachableHexes, ReachableHex } from '../services/hexUtils';
 import { checkGrowthCondition } from '../rules/growth';
+import { checkBuildCondition, getStructureCost } from '../rules/structures';
+import { checkCaptureCondition, isHostileSector } from '../rules/capture';
+import { getStepBlock } from '../rules/movement';
+import { checkBridgeCondition, buildBridge, getRegenerationTicksLeft } from '../rules/terrain';
+import { checkRepairCondition, getDurability, getRepairCost, getRepairPayment } from '../rules/repair';
+import { MovementCostModel, movementCostModel } from '../rules/movementCost';
 import { WorldIndex } from '../engine/WorldIndex';
+import { SeededRandom } from '../engine/SeededRandom';
 
 export interface AiResult {
     action: BotAction | null;
@@ -17,6 +24,27 @@ export interface AiResult {
 const SCAN_RADIUS = 12; 
 const CONTEXT_RADIUS = 15;
 
+// Economy: at most one mine per N owned sectors, and keep this many mine costs in the bank
+const SECTORS_PER_MINE = 4;
+const MINE_COST_RESERVE = 2;
+
+// Defense: wall off own sectors of at least this level when another unit comes this close
+const BARRIER_MIN_LEVEL = 2;
+const BARRIER_THREAT_RADIUS = 4;
+
+// Capture: raid rival sectors once settled, rush to sectors under capture. Goals expire after N state versions.
+const ATTACK_MIN_SECTORS = 5;
+const ATTACK_RADIUS = 6;
+const DEFEND_RADIUS = 6;
+const GOAL_TTL = 50;
+
+// Maintenance: repair key L1 supports worn down to this durability, within this range
+const REPAIR_THRESHOLD = 2;
+const REPAIR_RADIUS = 4;
+
+// Bridges: only span a hole that would not refill on its own within this many ticks
+const BRIDGE_PATIENCE_TICKS = 100;
+
 /**
  * AI V12: "The Survivor"
  * 
@@ -33,8 +61,11 @@ export const calculateBotMove = (
   obstacles: HexCoord[],
   index: WorldIndex,
   stateVersion: number,
+  tick: number, // SessionState.tick (timed rules such as VOID regeneration)
   difficulty: Difficulty,
-  reservedHexKeys?: Set<string>
+  rng: SeededRandom,
+  reservedHexKeys?: Set<string>,
+  costModel: MovementCostModel = movementCostModel
 ): AiResult => {
   
   const currentHexKey = getHexKey(bot.q, bot.r);
@@ -49,17 +80,21 @@ export const calculateBotMove = (
       stuckCounter: 0
   };
 
+  // Remembered trap sites on rival ground: routed around like units (owners tend to re-arm)
+  const knownTrapKeys = new Set((nextMemory.knownTraps || []).filter(k => grid[k] && grid[k].ownerId !== bot.id));
+  const pathObstacles = [...otherUnitObstacles, ...[...knownTrapKeys].map(k => ({ q: grid[k].q, r: grid[k].r }))];
+
   // === 0. PANIC MODE (Anti-Stuck) ===
   // If we have failed or waited 3 times in a row, force a move to break the loop.
   if (nextMemory.stuckCounter >= 3) {
       const neighbors = getNeighbors(bot.q, bot.r);
       
-      // Find valid escape routes (exists, rank ok, not blocked)
+      // Find valid escape routes (exists, passable per movement rules, not blocked)
       const escapeRoutes = neighbors.filter(n => {
           const k = getHexKey(n.q, n.r);
           const h = grid[k];
           if (!h) return false;
-          if (h.maxLevel > bot.playerLevel) return false;
+          if (getStepBlock(grid[currentHexKey], h, bot.playerLevel, bot.id)) return false;
           if (otherUnitObstacles.some(o => o.q === n.q && o.r === n.r)) return false;
           return true;
       });
@@ -67,13 +102,12 @@ export const calculateBotMove = (
       if (escapeRoutes.length > 0) {
           // Priority: Attack Player if adjacent (Suicide Run)
           const attackMove = escapeRoutes.find(n => n.q === player.q && n.r === player.r);
-          const target = attackMove || escapeRoutes[Math.floor(Math.random() * escapeRoutes.length)];
+          const target = attackMove || rng.pick(escapeRoutes);
           
           // CRITICAL FIX: Affordability Check
           // Calculate cost before attempting move to avoid infinite error loops in Engine
-          const targetHex = grid[getHexKey(target.q, target.r)];
-          const moveCost = (targetHex && targetHex.maxLevel >= 2) ? targetHex.maxLevel : 1;
-          const maxPossibleMoves = bot.moves + Math.floor(bot.coins / GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE);
+          const moveCost = costModel.stepCost(grid[getHexKey(target.q, target.r)], bot.id);
+          const maxPossibleMoves = costModel.maxAffordableMoves(bot);
 
           if (maxPossibleMoves < moveCost) {
              // We are trapped and broke. Just wait and reset counter to stop spamming.
@@ -101,17 +135,90 @@ export const calculateBotMove = (
   // --- Helpers ---
 
   const calculatePathCost = (path: HexCoord[]) => {
-      let moves = 0;
-      for (const p of path) {
-           const h = grid[getHexKey(p.q, p.r)];
-           const cost = (h && h.maxLevel >= 2) ? h.maxLevel : 1;
-           moves += cost;
+      const quote = costModel.quote(path, grid, bot);
+      return { moves: quote.totalMoves, coins: quote.costCoins };
+  };
+
+  // Real travel cost (moves) to every hex the bot can currently afford to reach
+  let reachable: Map<string, ReachableHex> | null = null;
+  const getTravelCost = (h: Hex): number => {
+      if (h.id === currentHexKey) return 0;
+      if (!reachable) {
+          reachable = getReachableHexes({q: bot.q, r: bot.r}, grid, bot.playerLevel, pathObstacles, bot, costModel, bot.id, CONTEXT_RADIUS);
+      }
+      // Unreachable within budget: rank behind everything reachable at that distance
+      return reachable.get(h.id)?.totalMoves ?? cubeDistance(bot, h) * 3;
+  };
+
+  // Mines pay passive income: worth building while territory outgrows our mine count and we stay liquid
+  const wantsMine = (): boolean => {
+      const ownMines = index.getStructures('MINE').filter(h => h.ownerId === bot.id).length;
+      return bot.coins >= getStructureCost('MINE') * MINE_COST_RESERVE
+          && ownMines < Math.floor(index.getOwnedHexCount(bot.id) / SECTORS_PER_MINE);
+  };
+
+  // Barriers protect valuable sectors from units closing in (hostile barriers are routed around by findPath)
+  const wantsBarrier = (h: Hex | undefined): boolean =>
+      !!h && h.maxLevel >= BARRIER_MIN_LEVEL
+      && bot.coins >= getStructureCost('BARRIER') * MINE_COST_RESERVE
+      && otherUnitObstacles.some(o => cubeDistance(o, h) <= BARRIER_THREAT_RADIUS);
+
+  // Own territory within context range, served by the ownership index (no grid scan)
+  const getOwnedNearby = (): Hex[] =>
+      index.getHexesOwnedBy(bot.id).filter(h => cubeDistance(bot, h) <= CONTEXT_RADIUS);
+
+  // Worn own L1 sector holding up higher own ground (or our master goal): losing it breaks the staircase
+  const needsRepair = (h: Hex | undefined): boolean =>
+      !!h && h.ownerId === bot.id && h.maxLevel === 1 && getDurability(h) <= REPAIR_THRESHOLD
+      && getNeighbors(h.q, h.r).some(n => {
+          const nh = grid[getHexKey(n.q, n.r)];
+          return !!nh && nh.ownerId === bot.id && (nh.maxLevel >= 2 || nh.id === nextMemory.masterGoalId);
+      });
+
+  // Walking onto a sector wears it once more: only go if we can pay for two points
+  const canAffordRepairTrip = (): boolean => {
+      const cost = getRepairCost(getRepairPayment(bot));
+      return bot.coins >= cost.coins * 2 && bot.moves >= cost.moves * 2;
+  };
+
+  // Own sector nearby that a rival is capturing (a neighbouring owner breaks off the capture)
+  const findBesieged = (): Hex | null => {
+      for (const h of getOwnedNearby()) {
+          if (cubeDistance(bot, h) > DEFEND_RADIUS) continue;
+          const unit = index.getEntityAt(h.q, h.r);
+          if (unit && unit.id !== bot.id && unit.movementQueue[0]?.intent === 'CAPTURE') return h;
       }
-      const deficit = Math.max(0, moves - bot.moves);
-      const coins = deficit * GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE;
-      return { moves, coins };
+      return null;
   };
 
+  // Rival sector we can flip with the tokens we hold: undefended, unwalled, no known trap. Softest first.
+  const pickAttackTarget = (): Hex | null => {
+      const tokens = bot.attackTokens || 0;
+      if (tokens <= 0 || index.getOwnedHexCount(bot.id) < ATTACK_MIN_SECTORS) return null;
+
+      const isTarget = (h: Hex | undefined): h is Hex =>
+          isHostileSector(h, bot)
+          && h.structureType !== 'BARRIER' && h.structureType !== 'VOID'
+          && Math.max(1, h.maxLevel) <= tokens
+          && !knownTrapKeys.has(h.id)
+          && !reservedHexKeys?.has(h.id)
+          && !otherUnitObstacles.some(o => o.q === h.q && o.r === h.r)
+          && !getNeighbors(h.q, h.r).some(n => index.getEntityAt(n.q, n.r)?.id === h.ownerId);
+
+      const goal = nextMemory.currentGoal;
+      if (goal?.type === 'ATTACK' && goal.expiresAt > stateVersion && goal.targetHexId && isTarget(grid[goal.targetHexId])) {
+          return grid[goal.targetHexId];
+      }
+
+      const targets = index.getHexesInRange({q:bot.q, r:bot.r}, ATTACK_RADIUS).filter(isTarget);
+      targets.sort((a,b) => (a.maxLevel - b.maxLevel) || (getTravelCost(a) - getTravelCost(b)));
+      return targets[0] || null;
+  };
+
+  const makeGoal = (type: 'ATTACK' | 'DEFEND', h: Hex): BotGoal => ({
+      type, targetHexId: h.id, targetQ: h.q, targetR: h.r, priority: type === 'DEFEND' ? 2 : 1, expiresAt: stateVersion + GOAL_TTL
+  });
+
   const getRecoveryFallback = (reason: string): AiResult => {
        // 1. If we are on an owned hex that needs recovery, do it.
        const curHex = grid[currentHexKey];
@@ -124,13 +231,13 @@ export const calculateBotMove = (
        }
 
        // 2. Find nearest farmable hex
-       const candidates = index.getHexesInRange({q:bot.q, r:bot.r}, CONTEXT_RADIUS)
-          .filter(h => h.ownerId === bot.id && (h.id !== currentHexKey || !bot.recoveredCurrentHex))
+       const candidates = getOwnedNearby()
+          .filter(h => h.id !== currentHexKey || !bot.recoveredCurrentHex)
           .filter(h => !reservedHexKeys?.has(h.id));
        
        candidates.sort((a,b) => {
-           const distA = cubeDistance(bot, a);
-           const distB = cubeDistance(bot, b);
+           const distA = getTravelCost(a);
+           const distB = getTravelCost(b);
            if (Math.abs(distA - distB) < 2) return b.maxLevel - a.maxLevel;
            return distA - distB;
        });
@@ -153,7 +260,9 @@ export const calculateBotMove = (
                {q:candidate.q, r:candidate.r}, 
                grid, 
                bot.playerLevel, 
-               otherUnitObstacles
+               pathObstacles,
+               costModel,
+               bot.id
            );
            
            if (path) {
@@ -177,6 +286,28 @@ export const calculateBotMove = (
        };
   };
 
+  // Blocked by holes: span one next to us if that opens a route to `target` (holes about to refill are waited out)
+  const planBridge = (target: Hex, label: string, masterGoalId: string): AiResult | null => {
+      if (bot.coins < GAME_CONFIG.VOID.bridgeCost * MINE_COST_RESERVE) return null;
+
+      for (const n of getNeighbors(bot.q, bot.r)) {
+          const hole = grid[getHexKey(n.q, n.r)];
+          if (!hole || !checkBridgeCondition(hole, bot).canBridge) continue;
+          if (getRegenerationTicksLeft(hole, tick) <= BRIDGE_PATIENCE_TICKS) continue;
+          if (cubeDistance(hole, target) >= cubeDistance(bot, target)) continue;
+
+          const bridged = { ...grid, [hole.id]: buildBridge(hole) };
+          if (!findPath({q:bot.q, r:bot.r}, {q:target.q, r:target.r}, bridged, bot.playerLevel, pathObstacles, costModel, bot.id)) continue;
+
+          return {
+              action: { type: 'BUILD_BRIDGE', coord: {q:hole.q, r:hole.r}, stateVersion },
+              debug: `Bridge > ${label}`,
+              memory: { ...nextMemory, masterGoalId, stuckCounter: 0 }
+          };
+      }
+      return null;
+  };
+
   // --- Core Evaluation Function ---
   // Returns result if a valid move is found, null if this specific goal path is blocked/invalid
   const evaluateGoal = (candidateMasterHex: Hex): AiResult | null => {
@@ -200,6 +331,8 @@ export const calculateBotMove = (
           const queueFull = bot.recentUpgrades.length >= queueSize;
           
           const cycleOk = targetLevel === 1 || (queueFull && !inQueue);
+          // Decayed sector: growing back to its max level ignores cycle, rank and support rules
+          const isRegrowth = targetLevel <= candidateMasterHex.maxLevel;
           
           let supportOk = true;
           if (targetLevel > 1) {
@@ -210,7 +343,10 @@ export const calculateBotMove = (
               if (validSupports.length < 2) supportOk = false;
           }
 
-          if (!rankOk) strategy = 'GRIND_RANK';
+          if (isRegrowth) {
+              strategy = 'REGROW';
+              targetHex = candidateMasterHex;
+          } else if (!rankOk) strategy = 'GRIND_RANK';
           else if (!cycleOk) strategy = 'FARM_CYCLE'; // Need to farm points (L0->L1)
           else if (!supportOk) strategy = 'BUILD_SUPPORT';
           else {
@@ -221,8 +357,8 @@ export const calculateBotMove = (
 
       // 3. Sub-Goal Resolution
       if (strategy === 'GRIND_RANK') {
-          const grindCandidates = index.getHexesInRange({q:bot.q, r:bot.r}, CONTEXT_RADIUS)
-              .filter(h => h.ownerId === bot.id && h.id !== candidateMasterHex.id && h.maxLevel <= bot.playerLevel)
+          const grindCandidates = getOwnedNearby()
+              .filter(h => h.id !== candidateMasterHex.id && h.maxLevel <= bot.playerLevel)
               .sort((a,b) => b.maxLevel - a.maxLevel);
           if (grindCandidates.length > 0) targetHex = grindCandidates[0];
           else strategy = 'EXPAND_DEFAULT';
@@ -233,8 +369,8 @@ export const calculateBotMove = (
               .filter(h => !h.ownerId && h.maxLevel === 0 && !reservedHexKeys?.has(h.id));
            
            empties.sort((a,b) => {
-               const distA = cubeDistance(bot, a);
-               const distB = cubeDistance(bot, b);
+               const distA = getTravelCost(a);
+               const distB = getTravelCost(b);
                if (Math.abs(distA - distB) < 3) {
                    const nA = getNeighbors(a.q, a.r).filter(n => grid[getHexKey(n.q, n.r)]?.ownerId === bot.id).length;
                    const nB = getNeighbors(b.q, b.r).filter(n => grid[getHexKey(n.q, n.r)]?.ownerId === bot.id).length;
@@ -291,8 +427,8 @@ export const calculateBotMove = (
       }
 
       // 5. Pathfinding
-      const path = findPath({q:bot.q, r:bot.r}, {q:targetHex.q, r:targetHex.r}, grid, bot.playerLevel, otherUnitObstacles);
-      if (!path) return null; // Path blocked
+      const path = findPath({q:bot.q, r:bot.r}, {q:targetHex.q, r:targetHex.r}, grid, bot.playerLevel, pathObstacles, costModel, bot.id);
+      if (!path) return planBridge(targetHex, strategy, candidateMasterHex.id); // Path blocked (maybe by holes)
 
       const travel = calculatePathCost(path);
       
@@ -339,6 +475,113 @@ export const calculateBotMove = (
 
   // --- Main Logic ---
 
+  // 0. Economy: build a mine on the sector we stand on
+  if (wantsMine() && checkBuildCondition(grid[currentHexKey], bot, 'MINE').canBuild) {
+      return {
+          action: { type: 'UPGRADE', coord: {q:bot.q, r:bot.r}, upgradeType: 'MINE', stateVersion },
+          debug: 'Build MINE',
+          memory: { ...nextMemory, stuckCounter: 0 }
+      };
+  }
+
+  // 0b. Defense: wall off the valuable sector we stand on
+  if (wantsBarrier(grid[currentHexKey]) && checkBuildCondition(grid[currentHexKey], bot, 'BARRIER').canBuild) {
+      return {
+          action: { type: 'UPGRADE', coord: {q:bot.q, r:bot.r}, upgradeType: 'BARRIER', stateVersion },
+          debug: 'Build BARRIER',
+          memory: { ...nextMemory, stuckCounter: 0 }
+      };
+  }
+
+  // 0c. Maintenance: repair a worn key support before it collapses
+  if (needsRepair(grid[currentHexKey])) {
+      const payWith = getRepairPayment(bot);
+      if (checkRepairCondition(grid[currentHexKey], bot, payWith).canRepair) {
+          return {
+              action: { type: 'REPAIR', coord: {q:bot.q, r:bot.r}, payWith, stateVersion },
+              debug: `REPAIR support (${payWith})`,
+              memory: { ...nextMemory, stuckCounter: 0 }
+          };
+      }
+  }
+  if (canAffordRepairTrip()) {
+      const worn = getOwnedNearby()
+          .filter(h => h.id !== currentHexKey && cubeDistance(bot, h) <= REPAIR_RADIUS && needsRepair(h) && !reservedHexKeys?.has(h.id))
+          .sort((a,b) => getDurability(a) - getDurability(b) || getTravelCost(a) - getTravelCost(b));
+      for (const h of worn.slice(0, 2)) {
+          const path = findPath({q:bot.q, r:bot.r}, {q:h.q, r:h.r}, grid, bot.playerLevel, pathObstacles, costModel, bot.id);
+          if (path && bot.coins >= calculatePathCost(path).coins) {
+              return {
+                  action: { type: 'MOVE', path, stateVersion },
+                  debug: `Move > REPAIR ${h.id}`,
+                  memory: { ...nextMemory, stuckCounter: 0 }
+              };
+          }
+      }
+  }
+
+  // 0d. Defend: stand next to our sector under capture to break off the capture.
+  // The goal is not renewed while the same siege lasts, so an expired hold lets the bot move on.
+  const besieged = findBesieged();
+  const siegeGoal = nextMemory.currentGoal?.type === 'DEFEND' && nextMemory.currentGoal.targetHexId === besieged?.id
+      ? nextMemory.currentGoal
+      : null;
+  if (besieged && (!siegeGoal || siegeGoal.expiresAt > stateVersion)) {
+      const currentGoal = siegeGoal || makeGoal('DEFEND', besieged);
+      if (cubeDistance(bot, besieged) === 1) {
+          const curHex = grid[currentHexKey];
+          const canRecoverHere = curHex && curHex.ownerId === bot.id && !bot.recoveredCurrentHex;
+          return {
+              action: canRecoverHere
+                  ? { type: 'UPGRADE', coord: {q:bot.q, r:bot.r}, intent: 'RECOVER', stateVersion }
+                  : { type: 'WAIT', stateVersion },
+              debug: `DEFEND: Holding ${besieged.id}`,
+              memory: { ...nextMemory, currentGoal, stuckCounter: 0 }
+          };
+      }
+
+      const posts = getNeighbors(besieged.q, besieged.r)
+          .map(n => grid[getHexKey(n.q, n.r)])
+          .filter(h => h && !knownTrapKeys.has(h.id) && !otherUnitObstacles.some(o => o.q === h.q && o.r === h.r))
+          .sort((a,b) => getTravelCost(a) - getTravelCost(b));
+      for (const post of posts.slice(0, 3)) {
+          const path = findPath({q:bot.q, r:bot.r}, {q:post.q, r:post.r}, grid, bot.playerLevel, pathObstacles, costModel, bot.id);
+          if (path && bot.coins >= calculatePathCost(path).coins) {
+              return {
+                  action: { type: 'MOVE', path, stateVersion },
+                  debug: `Move > DEFEND ${besieged.id}`,
+                  memory: { ...nextMemory, currentGoal, stuckCounter: 0 }
+              };
+          }
+      }
+  }
+
+  // 0e. Attack: capture the rival sector we stand on, or head for the softest one in range
+  const attackTarget = pickAttackTarget();
+  if (attackTarget) {
+      const currentGoal = makeGoal('ATTACK', attackTarget);
+      if (attackTarget.id === currentHexKey) {
+          if (checkCaptureCondition(attackTarget, bot).canCapture) {
+              return {
+                  action: { type: 'UPGRADE', coord: {q:bot.q, r:bot.r}, intent: 'CAPTURE', stateVersion },
+                  debug: `ATTACK -> ${attackTarget.id}`,
+                  memory: { ...nextMemory, currentGoal, stuckCounter: 0 }
+              };
+          }
+      } else {
+          const path = findPath({q:bot.q, r:bot.r}, {q:attackTarget.q, r:attackTarget.r}, grid, bot.playerLevel, pathObstacles, costModel, bot.id);
+          if (path && bot.coins >= calculatePathCost(path).coins) {
+              return {
+                  action: { type: 'MOVE', path, stateVersion },
+                  debug: `Move > ATTACK ${attackTarget.id}`,
+                  memory: { ...nextMemory, currentGoal, stuckCounter: 0 }
+              };
+          }
+      }
+  }
+  // An expired DEFEND goal stays while its siege lasts (see 0d)
+  if (nextMemory.currentGoal?.type === 'ATTACK' || (nextMemory.currentGoal?.type === 'DEFEND' && !siegeGoal)) nextMemory.currentGoal = null;
+
   // 1. Try Existing Master Goal
   if (nextMemory.masterGoalId) {
       const existingMaster = grid[nextMemory.masterGoalId];
@@ -350,10 +593,11 @@ export const calculateBotMove = (
   }
 
   // 2. Context Analysis for Scoring
-  const ownedHexes = index.getHexesInRange({q:bot.q, r:bot.r}, CONTEXT_RADIUS).filter(h => h.ownerId === bot.id);
+  const ownedHexes = getOwnedNearby();
   const isEarlyGame = ownedHexes.length < 5;
   const distToPlayer = cubeDistance(bot, player);
   const isThreatened = distToPlayer < 8;
+  const mineWanted = wantsMine();
 
   // 3. Generate New Candidates
   const candidates = index.getHexesInRange({q:bot.q, r:bot.r}, SCAN_RADIUS);
@@ -364,16 +608,17 @@ export const calculateBotMove = (
       
       const isBlocked = otherUnitObstacles.some(o => o.q === h.q && o.r === h.r);
       if (isBlocked && h.id !== currentHexKey) continue;
+      if (knownTrapKeys.has(h.id) && h.id !== currentHexKey) continue;
 
       let score = 100;
 
       // --- RNG VARIATION ---
       // Fix for bots clustering in the same direction early game.
       if (isEarlyGame) {
-          score += (Math.random() - 0.5) * 30;
+          score += (rng.next() - 0.5) * 30;
       }
       
-      const dist = cubeDistance(bot, h);
+      const dist = getTravelCost(h);
       score -= dist * 4;
 
       const nextLvl = h.currentLevel + 1;
@@ -389,6 +634,10 @@ export const calculateBotMove = (
       if (h.ownerId === bot.id) {
             score += 20; 
             score += h.maxLevel * 10; 
+            if (h.currentLevel < h.maxLevel) score += 15; // Decayed: free regrowth
+            if (h.structureType === 'MINE') score += 10; // Guard income
+            else if (!h.structureType && mineWanted) score += 15; // Mine site
+            else if (!h.structureType && wantsBarrier(h)) score += 15; // Barrier site
             if (bot.recentUpgrades.includes(h.id)) score -= 15;
             if (isThreatened && cubeDistance(h, player) < 5) score += 40; 
             if (bot.recentUpgrades.length >= queueSize) score += 20;
@@ -1,17 +1,30 @@
 
 import React, { useState, useMemo } from 'react';
-import { useGameStore } from '../store.ts';
-import { getHexKey, getNeighbors, getSecondsToGrow, findPath } from '../services/hexUtils.ts';
+import { useGameStore, getMovementCostModel } from '../store.ts';
+import { getHexKey, getNeighbors, getSecondsToGrow, findPath, cubeDistance } from '../services/hexUtils.ts';
 import { checkGrowthCondition } from '../rules/growth.ts';
-import { EXCHANGE_RATE_COINS_PER_MOVE, DIFFICULTY_SETTINGS } from '../rules/config.ts';
-import { EntityState } from '../types.ts';
+import { checkBuildCondition, getStructureCost } from '../rules/structures.ts';
+import { checkTrapCondition } from '../rules/traps.ts';
+import { checkCaptureCondition, isHostileSector } from '../rules/capture.ts';
+import { checkBridgeCondition } from '../rules/terrain.ts';
+import { checkRepairCondition, getDurability, getRepairPayment, getRepairCost } from '../rules/repair.ts';
+import { getIncomePerMinute } from '../rules/economy.ts';
+import { DIFFICULTY_SETTINGS, GAME_CONFIG } from '../rules/config.ts';
+import { EntityState, LedgerReason } from '../types.ts';
+import { Ledger } from '../engine/Ledger.ts';
 import HexButton from './HexButton.tsx';
 import { 
   AlertCircle, Pause, Trophy, Coins, Footprints, AlertTriangle, LogOut,
   Crown, TrendingUp, ChevronUp, ChevronDown, Shield, MapPin,
-  RotateCcw, RotateCw, CheckCircle2, ChevronsUp, Lock, Volume2, VolumeX, XCircle, Zap, RefreshCw
+  RotateCcw, RotateCw, CheckCircle2, ChevronsUp, Lock, Volume2, VolumeX, XCircle, Zap, RefreshCw, Pickaxe, BrickWall, Landmark, Crosshair, Swords, Construction, Wrench, Receipt
 } from 'lucide-react';
 
+const LEDGER_LABELS: Record<LedgerReason, string> = {
+  MOVE: 'Movement', RECHARGE: 'Recharge', STRUCTURE: 'Structures', TRAP: 'Traps', BRIDGE: 'Bridges',
+  UPGRADE: 'Upgrades', GROWTH: 'Growth', RECOVERY: 'Recovery', REPAIR: 'Repairs', TRAP_SPRUNG: 'Trapped',
+  CAPITAL_LOST: 'Capital Lost', MINE: 'Mines', TERRITORY: 'Territory', UPKEEP: 'Upkeep'
+};
+
 interface GameHUDProps {
   hoveredHexId: string | null;
   onRotateCamera: (direction: 'left' | 'right') => void;
@@ -28,6 +41,7 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
   const isPlayerGrowing = useGameStore(state => state.session?.isPlayerGrowing);
   const playerGrowthIntent = useGameStore(state => state.session?.playerGrowthIntent);
   const sessionStartTime = useGameStore(state => state.session?.sessionStartTime);
+  const sessionId = useGameStore(state => state.session?.sessionId);
   const difficulty = useGameStore(state => state.session?.difficulty);
 
   const user = useGameStore(state => state.user);
@@ -37,7 +51,13 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
 
   const setUIState = useGameStore(state => state.setUIState);
   const abandonSession = useGameStore(state => state.abandonSession);
+  const saveSession = useGameStore(state => state.saveSession);
   const togglePlayerGrowth = useGameStore(state => state.togglePlayerGrowth);
+  const buildStructure = useGameStore(state => state.buildStructure);
+  const armTrap = useGameStore(state => state.armTrap);
+  const captureSector = useGameStore(state => state.captureSector);
+  const buildBridge = useGameStore(state => state.buildBridge);
+  const repairSector = useGameStore(state => state.repairSector);
   const confirmPendingAction = useGameStore(state => state.confirmPendingAction);
   const cancelPendingAction = useGameStore(state => state.cancelPendingAction);
   const toggleMute = useGameStore(state => state.toggleMute);
@@ -46,7 +66,8 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
   // Local UI State
   const [showExitConfirmation, setShowExitConfirmation] = useState(false);
   const [isRankingsOpen, setIsRankingsOpen] = useState(false);
-  const [helpTopic, setHelpTopic] = useState<'RANK' | 'QUEUE' | 'COINS' | 'MOVES' | null>(null);
+  const [isLedgerOpen, setIsLedgerOpen] = useState(false);
+  const [helpTopic, setHelpTopic] = useState<'RANK' | 'QUEUE' | 'COINS' | 'MOVES' | 'TOKENS' | null>(null);
 
   if (!grid || !player || !bots || !difficulty) return null;
 
@@ -57,6 +78,14 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
   const botPositions = safeBots.map(b => ({ q: b.q, r: b.r }));
   const isMoving = player.state === EntityState.MOVING;
   const canRecover = !player.recoveredCurrentHex;
+  const incomePerMinute = useMemo(
+    () => Math.floor(getIncomePerMinute(Object.values(grid).filter(h => h.ownerId === player.id))),
+    [grid, player.id]
+  );
+  const ledger = useMemo(() => ([
+    { label: 'Credits', color: 'text-amber-400', breakdown: Ledger.breakdown(player, 'COINS') },
+    { label: 'Moves', color: 'text-sky-400', breakdown: Ledger.breakdown(player, 'MOVES') }
+  ]), [player.ledger]);
 
   // Conditions
   const growthCondition = useMemo(() => {
@@ -72,6 +101,39 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
 
   const canUpgrade = upgradeCondition.canGrow;
 
+  const mineCondition = useMemo(() => checkBuildCondition(currentHex, player, 'MINE'), [currentHex, player]);
+  const canBuildMine = mineCondition.canBuild;
+  const barrierCondition = useMemo(() => checkBuildCondition(currentHex, player, 'BARRIER'), [currentHex, player]);
+  const canBuildBarrier = barrierCondition.canBuild;
+  const capitalCondition = useMemo(() => {
+    const capitals = Object.values(grid).filter(h => h.structureType === 'CAPITAL');
+    return checkBuildCondition(currentHex, player, 'CAPITAL', capitals);
+  }, [currentHex, player, grid]);
+  const canBuildCapital = capitalCondition.canBuild;
+  const trapCondition = useMemo(() => checkTrapCondition(currentHex, player), [currentHex, player]);
+  const canArmTrap = trapCondition.canArm;
+  const onHostileSector = isHostileSector(currentHex, player);
+  const canCapture = useMemo(() => checkCaptureCondition(currentHex, player).canCapture, [currentHex, player]);
+  const isCapturing = player.movementQueue[0]?.intent === 'CAPTURE';
+
+  // Worn L1 sector underfoot: durability pips + repair (credits first, moves otherwise)
+  const isOwnL1 = !!currentHex && currentHex.ownerId === player.id && currentHex.maxLevel === 1;
+  const durability = currentHex ? getDurability(currentHex) : 0;
+  const repairPayment = getRepairPayment(player);
+  const repairCost = getRepairCost(repairPayment);
+  const canRepair = useMemo(() => checkRepairCondition(currentHex, player, repairPayment).canRepair, [currentHex, player, repairPayment]);
+  const isRepairing = player.movementQueue[0]?.intent === 'REPAIR';
+
+  // Hole to span: the hovered one if it is next to us, else the first adjacent one
+  const bridgeTarget = useMemo(() => {
+    const hovered = hoveredHexId ? grid[hoveredHexId] : undefined;
+    if (hovered && hovered.structureType === 'VOID' && cubeDistance(hovered, player) === 1) return hovered;
+    return getNeighbors(player.q, player.r)
+      .map(n => grid[getHexKey(n.q, n.r)])
+      .find(h => h && h.structureType === 'VOID') || null;
+  }, [hoveredHexId, grid, player]);
+  const canBridge = !!bridgeTarget && checkBridgeCondition(bridgeTarget, player).canBridge;
+
   const timeData = useMemo(() => {
     if (!currentHex) return { totalNeeded: 1, totalDone: 0, percent: 0, mode: 'IDLE' };
     
@@ -123,21 +185,15 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
     } else if (isBlockedByBot) {
         label = "BLOCKED";
     } else {
-        const path = findPath({ q: player.q, r: player.r }, { q: hex.q, r: hex.r }, grid, player.playerLevel, obstacles);
+        const costModel = getMovementCostModel();
+        const path = findPath({ q: player.q, r: player.r }, { q: hex.q, r: hex.r }, grid, player.playerLevel, obstacles, costModel, player.id);
         if (path) {
             isReachable = true;
-            for (const step of path) {
-                const stepHex = grid[getHexKey(step.q, step.r)];
-                moveCost += (stepHex && stepHex.maxLevel >= 2) ? stepHex.maxLevel : 1;
-            }
-            const availableMoves = player.moves;
-            const movesToSpend = Math.min(moveCost, availableMoves);
-            const deficit = moveCost - movesToSpend;
-            const coinsToSpend = deficit * EXCHANGE_RATE_COINS_PER_MOVE;
-
-            costMoves = movesToSpend;
-            costCoins = coinsToSpend;
-            canAffordCoins = player.coins >= coinsToSpend;
+            const quote = costModel.quote(path, grid, player);
+            moveCost = quote.totalMoves;
+            costMoves = quote.costMoves;
+            costCoins = quote.costCoins;
+            canAffordCoins = quote.canAfford;
         } else {
             label = "N/A";
         }
@@ -183,6 +239,55 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
     togglePlayerGrowth('RECOVER');
   };
 
+  const handleBuildMineClick = () => {
+    onCenterPlayer();
+    if (isMoving) return;
+    if (!canBuildMine) return;
+    buildStructure('MINE');
+  };
+
+  const handleBuildBarrierClick = () => {
+    onCenterPlayer();
+    if (isMoving) return;
+    if (!canBuildBarrier) return;
+    buildStructure('BARRIER');
+  };
+
+  const handleBuildCapitalClick = () => {
+    onCenterPlayer();
+    if (isMoving) return;
+    if (!canBuildCapital) return;
+    buildStructure('CAPITAL');
+  };
+
+  const handleArmTrapClick = () => {
+    onCenterPlayer();
+    if (isMoving) return;
+    if (!canArmTrap) return;
+    armTrap();
+  };
+
+  const handleRepairClick = () => {
+    onCenterPlayer();
+    if (isMoving || isRepairing) return;
+    if (!canRepair) return;
+    repairSector();
+  };
+
+  const handleBridgeClick = () => {
+    onCenterPlayer();
+    if (isMoving) return;
+    if (!canBridge || !bridgeTarget) return;
+    buildBridge(bridgeTarget.q, bridgeTarget.r);
+  };
+
+  const handleCaptureClick = () => {
+    onCenterPlayer();
+    if (isMoving || isCapturing) return;
+    if (!canCapture) return;
+    captureSector();
+  };
+
   const handleUpgradeClick = () => {
     onCenterPlayer(); 
     if (isMoving) return; 
@@ -223,8 +328,9 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
                    <div onClick={() => { setHelpTopic('COINS'); playUiSound('CLICK'); }} className="flex items-center gap-1.5 md:gap-2 cursor-help opacity-90 hover:opacity-100 group shrink-0">
                        <Coins className="w-4 h-4 md:w-5 md:h-5 text-amber-400 group-hover:text-amber-300 drop-shadow-[0_0_8px_rgba(251,191,36,0.5)]" />
                        <div className="flex items-baseline">
-                         <span className="text-xs md:text-lg font-black text-white">{player.coins}</span>
+                         <span className={`text-xs md:text-lg font-black ${player.inArrears ? 'text-red-400' : 'text-white'}`}>{player.coins}</span>
                          <span className="text-[9px] md:text-xs text-slate-500 font-bold ml-px md:ml-0.5">/{winCondition?.targetCoins || '?'}</span>
+                         {incomePerMinute > 0 && <span className="hidden sm:inline text-[9px] md:text-xs text-emerald-400 font-bold ml-1">+{incomePerMinute}/min</span>}
                        </div>
                    </div>
                    <div className="w-px h-4 md:h-6 bg-slate-700/50 shrink-0"></div>
@@ -233,6 +339,12 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
                        <Footprints className={`w-4 h-4 md:w-5 md:h-5 ${isMoving ? 'text-slate-200 animate-pulse' : 'text-blue-400 group-hover:text-blue-300 drop-shadow-[0_0_8px_rgba(96,165,250,0.5)]'}`} />
                        <span className="text-xs md:text-lg font-black text-white">{player.moves}</span>
                    </div>
+                   <div className="w-px h-4 md:h-6 bg-slate-700/50 shrink-0"></div>
+                   {/* Attack Tokens */}
+                   <div onClick={() => { setHelpTopic('TOKENS'); playUiSound('CLICK'); }} className="flex items-center gap-1.5 md:gap-2 cursor-help opacity-90 hover:opacity-100 group shrink-0">
+                       <Swords className="w-4 h-4 md:w-5 md:h-5 text-red-400 group-hover:text-red-300 drop-shadow-[0_0_8px_rgba(248,113,113,0.5)]" />
+                       <span className="text-xs md:text-lg font-black text-white">{player.attackTokens || 0}</span>
+                   </div>
                </div>
 
                {/* RIGHT: SYSTEM CONTROLS */}
@@ -244,6 +356,49 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
                       {isMuted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
                    </button>
 
+                   <div className={`flex flex-col bg-slate-900/80 backdrop-blur-xl border border-slate-700/50 rounded-2xl shadow-2xl overflow-hidden transition-all duration-300 origin-top-right ${isLedgerOpen ? 'w-56 md:w-72' : 'w-12 md:w-14 h-12 md:h-14'}`}>
+                       <div onClick={() => { setIsLedgerOpen(!isLedgerOpen); playUiSound('CLICK'); }} className={`flex items-center justify-center w-full h-12 md:h-14 cursor-pointer hover:bg-white/5 transition-colors ${isLedgerOpen ? 'border-b border-slate-700/50' : ''}`}>
+                           {isLedgerOpen ? (
+                               <div className="flex items-center justify-between w-full px-3">
+                                   <div className="flex items-center gap-2"><Receipt className="w-4 h-4 text-emerald-400" /><span className="text-[10px] font-bold text-slate-300 uppercase">Ledger</span></div>
+                                   <ChevronUp className="w-3 h-3 text-slate-500" />
+                               </div>
+                           ) : (
+                               <Receipt className="w-5 h-5 text-emerald-400" />
+                           )}
+                       </div>
+
+                       {isLedgerOpen && (
+                           <div className="flex flex-col p-2 gap-2 max-h-[40vh] overflow-y-auto no-scrollbar">
+                               {ledger.map(({ label, color, breakdown }) => (
+                                   <div key={label} className="flex flex-col gap-1 p-2 rounded-lg bg-slate-950/50 border border-slate-800/50">
+                                       {/* Earned vs. spent */}
+                                       <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-wider">
+                                           <span className={color}>{label}</span>
+                                           <span className="font-mono">
+                                               <span className="text-emerald-400">+{breakdown.earned}</span>
+                                               <span className="text-slate-600"> / </span>
+                                               <span className="text-red-400">-{breakdown.spent}</span>
+                                           </span>
+                                       </div>
+                                       {breakdown.lines.length === 0 && <span className="text-[9px] text-slate-500">No activity yet</span>}
+                                       {/* Per reason */}
+                                       {breakdown.lines.map(line => (
+                                           <div key={line.reason} className="flex items-center justify-between text-[9px]">
+                                               <span className="text-slate-400">{LEDGER_LABELS[line.reason]}</span>
+                                               <span className="font-mono font-bold">
+                                                   {line.earned > 0 && <span className="text-emerald-400">+{line.earned}</span>}
+                                                   {line.earned > 0 && line.spent > 0 && <span className="text-slate-600"> / </span>}
+                                                   {line.spent > 0 && <span className="text-red-400">-{line.spent}</span>}
+                                               </span>
+                                           </div>
+                                       ))}
+                                   </div>
+                               ))}
+                           </div>
+                       )}
+                   </div>
+
                    <div className={`flex flex-col bg-slate-900/80 backdrop-blur-xl border border-slate-700/50 rounded-2xl shadow-2xl overflow-hidden transition-all duration-300 origin-top-right ${isRankingsOpen ? 'w-56 md:w-80' : 'w-12 md:w-14 h-12 md:h-14'}`}>
                        <div onClick={() => { setIsRankingsOpen(!isRankingsOpen); playUiSound('CLICK'); }} className={`flex items-center justify-center w-full h-12 md:h-14 cursor-pointer hover:bg-white/5 transition-colors ${isRankingsOpen ? 'border-b border-slate-700/50' : ''}`}>
                            {isRankingsOpen ? (
@@ -384,6 +539,100 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
                 >
                     <ChevronsUp className={`w-10 h-10 ${(canUpgrade && !isMoving) ? 'text-amber-50 drop-shadow-[0_0_8px_rgba(251,191,36,0.8)]' : 'text-slate-500'}`} />
                 </HexButton>
+
+                {onHostileSector && (
+                  <HexButton 
+                    onClick={handleCaptureClick} 
+                    disabled={!canCapture || isMoving}
+                    variant={(canCapture && !isMoving) ? 'red' : 'slate'}
+                    size="md"
+                    pulsate={isCapturing}
+                  >
+                      <Swords className={`w-6 h-6 ${(canCapture && !isMoving) ? 'text-red-50 drop-shadow-[0_0_8px_rgba(248,113,113,0.8)]' : 'text-slate-500'}`} />
+                  </HexButton>
+                )}
+
+                <HexButton 
+                  onClick={handleBuildMineClick} 
+                  disabled={!canBuildMine || isMoving}
+                  variant={(canBuildMine && !isMoving) ? 'emerald' : 'slate'}
+                  size="md"
+                >
+                    <div className="flex flex-col items-center gap-0.5">
+                        <Pickaxe className={`w-6 h-6 ${(canBuildMine && !isMoving) ? 'text-emerald-50 drop-shadow-[0_0_8px_rgba(52,211,153,0.8)]' : 'text-slate-500'}`} />
+                        <span className={`text-[9px] font-mono font-bold ${(canBuildMine && !isMoving) ? 'text-emerald-100' : 'text-slate-500'}`}>{getStructureCost('MINE')}</span>
+                    </div>
+                </HexButton>
+
+                <HexButton 
+                  onClick={handleBuildBarrierClick} 
+                  disabled={!canBuildBarrier || isMoving}
+                  variant={(canBuildBarrier && !isMoving) ? 'blue' : 'slate'}
+                  size="md"
+                >
+                    <div className="flex flex-col items-center gap-0.5">
+                        <BrickWall className={`w-6 h-6 ${(canBuildBarrier && !isMoving) ? 'text-sky-50 drop-shadow-[0_0_8px_rgba(56,189,248,0.8)]' : 'text-slate-500'}`} />
+                        <span className={`text-[9px] font-mono font-bold ${(canBuildBarrier && !isMoving) ? 'text-sky-100' : 'text-slate-500'}`}>{getStructureCost('BARRIER')}</span>
+                    </div>
+                </HexButton>
+
+                <HexButton 
+                  onClick={handleBuildCapitalClick} 
+                  disabled={!canBuildCapital || isMoving}
+                  variant={(canBuildCapital && !isMoving) ? 'amber' : 'slate'}
+                  size="md"
+                >
+                    <div className="flex flex-col items-center gap-0.5">
+                        <Landmark className={`w-6 h-6 ${(canBuildCapital && !isMoving) ? 'text-amber-50 drop-shadow-[0_0_8px_rgba(251,191,36,0.8)]' : 'text-slate-500'}`} />
+                        <span className={`text-[9px] font-mono font-bold ${(canBuildCapital && !isMoving) ? 'text-amber-100' : 'text-slate-500'}`}>{getStructureCost('CAPITAL')}</span>
+                    </div>
+                </HexButton>
+
+                <HexButton 
+                  onClick={handleArmTrapClick} 
+                  disabled={!canArmTrap || isMoving}
+                  variant={(canArmTrap && !isMoving) ? 'red' : 'slate'}
+                  size="md"
+                >
+                    <div className="flex flex-col items-center gap-0.5">
+                        <Crosshair className={`w-6 h-6 ${(canArmTrap && !isMoving) ? 'text-red-50 drop-shadow-[0_0_8px_rgba(248,113,113,0.8)]' : 'text-slate-500'}`} />
+                        <span className={`text-[9px] font-mono font-bold ${(canArmTrap && !isMoving) ? 'text-red-100' : 'text-slate-500'}`}>{GAME_CONFIG.TRAP.cost}</span>
+                    </div>
+                </HexButton>
+
+                {isOwnL1 && (
+                  <HexButton 
+                    onClick={handleRepairClick} 
+                    disabled={!canRepair || isMoving}
+                    variant={(canRepair && !isMoving) ? 'blue' : 'slate'}
+                    size="md"
+                    pulsate={isRepairing}
+                  >
+                      <div className="flex flex-col items-center gap-0.5">
+                          <Wrench className={`w-5 h-5 ${(canRepair && !isMoving) ? 'text-sky-50 drop-shadow-[0_0_8px_rgba(56,189,248,0.8)]' : 'text-slate-500'}`} />
+                          <div className="flex gap-[2px]">
+                              {Array.from({ length: GAME_CONFIG.L1_HEX_MAX_DURABILITY }, (_, i) => (
+                                  <span key={i} className={`w-1 h-1.5 rounded-sm ${i < durability ? (durability <= 2 ? 'bg-red-400' : 'bg-emerald-400') : 'bg-slate-700'}`} />
+                              ))}
+                          </div>
+                          <span className={`text-[9px] font-mono font-bold ${(canRepair && !isMoving) ? 'text-sky-100' : 'text-slate-500'}`}>{repairPayment === 'COINS' ? `${repairCost.coins}c` : `${repairCost.moves}m`}</span>
+                      </div>
+                  </HexButton>
+                )}
+
+                {bridgeTarget && (
+                  <HexButton 
+                    onClick={handleBridgeClick} 
+                    disabled={!canBridge || isMoving}
+                    variant={(canBridge && !isMoving) ? 'amber' : 'slate'}
+                    size="md"
+                  >
+                      <div className="flex flex-col items-center gap-0.5">
+                          <Construction className={`w-6 h-6 ${(canBridge && !isMoving) ? 'text-amber-50 drop-shadow-[0_0_8px_rgba(251,191,36,0.8)]' : 'text-slate-500'}`} />
+                          <span className={`text-[9px] font-mono font-bold ${(canBridge && !isMoving) ? 'text-amber-100' : 'text-slate-500'}`}>{GAME_CONFIG.VOID.bridgeCost}</span>
+                      </div>
+                  </HexButton>
+                )}
               </>
            )}
         </div>
@@ -405,7 +654,7 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
              <h3 className="text-xl font-bold text-white mb-2">Resource Conversion</h3>
              <p className="text-slate-400 text-xs mb-6 px-4">High-level sectors require additional propulsion. <br/><span className="text-amber-500">Insufficient moves available.</span></p>
              <div className="bg-slate-950 p-4 rounded-xl border border-slate-800 mb-6 flex flex-col gap-2">
-                <div className="flex justify-between items-center"><span className="text-xs font-bold text-slate-500 uppercase">Total Move Cost</span><span className="text-white font-mono font-bold">{pendingConfirmation.data.costMoves + (pendingConfirmation.data.costCoins / EXCHANGE_RATE_COINS_PER_MOVE)}</span></div>
+                <div className="flex justify-between items-center"><span className="text-xs font-bold text-slate-500 uppercase">Total Move Cost</span><span className="text-white font-mono font-bold">{pendingConfirmation.data.costMoves + (pendingConfirmation.data.costCoins / getMovementCostModel().exchangeRate)}</span></div>
                 <div className="w-full h-px bg-slate-800 my-1"></div>
                 <div className="flex justify-between items-center"><span className="text-xs font-bold text-slate-500 uppercase">Available Moves</span><span className="text-emerald-500 font-mono font-bold">{player.moves}</span></div>
                 <div className="flex justify-between items-center"><span className="text-xs font-bold text-amber-500 uppercase">Credit Cost</span><div className="text-amber-500 font-mono font-bold flex items-center gap-1">-{pendingConfirmation.data.costCoins} <Coins className="w-3 h-3" /></div></div>
@@ -428,18 +677,21 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
                         {helpTopic === 'QUEUE' && <TrendingUp className="w-6 h-6 text-emerald-500" />}
                         {helpTopic === 'COINS' && <Coins className="w-6 h-6 text-amber-500" />}
                         {helpTopic === 'MOVES' && <Footprints className="w-6 h-6 text-blue-500" />}
+                        {helpTopic === 'TOKENS' && <Swords className="w-6 h-6 text-red-500" />}
                     </div>
                     <h3 className="text-xl font-black text-white mb-2 uppercase tracking-wide">
                         {helpTopic === 'RANK' && 'Clearance Rank'}
                         {helpTopic === 'QUEUE' && 'Upgrade Cycle'}
                         {helpTopic === 'COINS' && 'Credits'}
                         {helpTopic === 'MOVES' && 'Propulsion'}
+                        {helpTopic === 'TOKENS' && 'Attack Tokens'}
                     </h3>
                     <div className="text-sm text-slate-400 leading-relaxed px-2">
                         {helpTopic === 'RANK' && (<><p className="mb-2">Your Rank determines your maximum clearance level.</p><p className="text-indigo-400 font-bold">Goal: Rank {winCondition?.targetLevel}</p></>)}
                         {helpTopic === 'QUEUE' && (<><p className="mb-2">You must rotate between {queueSize} different sectors.</p><p className="text-emerald-400 font-bold">Green dots show momentum.</p></>)}
-                        {helpTopic === 'COINS' && (<><p className="mb-2">Credits fund upgrades and can refuel movement.</p><p className="text-amber-500 font-bold">Goal: {winCondition?.targetCoins} Credits</p></>)}
+                        {helpTopic === 'COINS' && (<><p className="mb-2">Credits fund upgrades and can refuel movement.</p><p className="mb-2">Your sectors pay passive income by level: <span className="text-emerald-400 font-bold">+{incomePerMinute}/min</span>. Large empires earn less per sector.</p><p className="text-amber-500 font-bold">Goal: {winCondition?.targetCoins} Credits</p>{player.inArrears && <p className="mt-2 text-red-400 font-bold">Upkeep unpaid: your sectors decay faster.</p>}</>)}
                         {helpTopic === 'MOVES' && (<><p className="mb-2">Moves are replenished by upgrading or recovering.</p><p className="text-blue-400 font-bold">Tip: High levels cost more.</p></>)}
+                        {helpTopic === 'TOKENS' && (<><p className="mb-2">Stand on a rival sector to drain it one level per token. At L1 it becomes yours.</p><p className="text-red-400 font-bold">Earn one with every new rank.</p></>)}
                     </div>
                 </div>
             </div>
@@ -455,6 +707,7 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
              <p className="text-slate-400 text-xs mb-6 leading-relaxed">Terminating the session will disconnect from the current sector.</p>
              <div className="flex gap-3">
                <button onClick={() => { setShowExitConfirmation(false); playUiSound('CLICK'); }} className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 rounded-xl text-slate-300 font-bold text-xs uppercase tracking-wider">Cancel</button>
+               <button onClick={() => { if (saveSession(`session-${sessionId}`)) { abandonSession(); } setShowExitConfirmation(false); playUiSound('CLICK'); }} className="flex-1 py-3 bg-indigo-900/50 hover:bg-indigo-800/50 border border-indigo-800/50 rounded-xl text-indigo-200 hover:text-white font-bold text-xs uppercase tracking-wider">Save & Exit</button>
                <button onClick={() => { abandonSession(); setShowExitConfirmation(false); playUiSound('CLICK'); }} className="flex-1 py-3 bg-red-900/50 hover:bg-red-800/50 border border-red-800/50 rounded-xl text-red-200 hover:text-white font-bold text-xs uppercase tracking-wider">Confirm Exit</button>
              </div>
           </div>
@@ -4,13 +4,13 @@
 import React, { useEffect, useCallback, useState, useMemo, useRef, useLayoutEffect } from 'react';
 import { Stage, Layer, Line, Group, Text, Circle } from 'react-konva';
 import Konva from 'konva';
-import { useGameStore } from '../store.ts';
-import { getHexKey, getNeighbors, hexToPixel } from '../services/hexUtils.ts';
+import { useGameStore, getMovementCostModel } from '../store.ts';
+import { getHexKey, getNeighbors, hexToPixel, getReachableHexes } from '../services/hexUtils.ts';
 import Hexagon from './Hexagon.tsx'; 
 import Unit from './Unit.tsx';
 import Background from './Background.tsx';
 import GameHUD from './GameHUD.tsx';
-import { EXCHANGE_RATE_COINS_PER_MOVE, GAME_CONFIG } from '../rules/config.ts';
+import { GAME_CONFIG } from '../rules/config.ts';
 import { Hex, EntityType, EntityState, FloatingText } from '../types.ts';
 
 const VIEWPORT_PADDING = 300; 
@@ -19,7 +19,8 @@ const VIEWPORT_PADDING = 300;
 type RenderItem = 
   | { type: 'HEX'; id: string; depth: number; q: number; r: number }
   | { type: 'UNIT'; id: string; depth: number; q: number; r: number; isPlayer: boolean }
-  | { type: 'CONN'; id: string; depth: number; points: number[]; color: string; dash: number[]; opacity: number };
+  | { type: 'CONN'; id: string; depth: number; points: number[]; color: string; dash: number[]; opacity: number }
+  | { type: 'REACH'; id: string; depth: number; points: number[]; color: string };
 
 // --- PARTICLES ---
 interface VisualParticle {
@@ -167,7 +168,7 @@ const GameView: React.FC = () => {
 
   // Game Loop
   useEffect(() => {
-    const interval = setInterval(tick, 100); // 100ms tick for responsive updates
+    const interval = setInterval(tick, GAME_CONFIG.TICK_INTERVAL_MS); // 100ms tick for responsive updates
     return () => clearInterval(interval);
   }, [tick]);
 
@@ -378,6 +379,24 @@ const GameView: React.FC = () => {
      }
 
      if (!isMoving && !isPlayerGrowing) {
+        // Reachable-area overlay: cyan = paid with moves only, amber = needs coins
+        const obstacles = safeBots.map(b => ({ q: b.q, r: b.r }));
+        const reachable = getReachableHexes(player, grid, player.playerLevel, obstacles, player, getMovementCostModel(), player.id);
+        const outlineRadius = GAME_CONFIG.HEX_SIZE - 6;
+        reachable.forEach((reach, key) => {
+            const hex = grid[key];
+            if (!hex) return;
+            const { x, y } = hexToPixel(hex.q, hex.r, cameraRotation);
+            if (x < visibleMinX || x > visibleMaxX || y < visibleMinY || y > visibleMaxY) return;
+            const topY = y - (10 + hex.maxLevel * 6);
+            const points: number[] = [];
+            for (let i = 0; i < 6; i++) {
+                const angle = ((60 * i + 30 + cameraRotation) * Math.PI) / 180;
+                points.push(x + outlineRadius * Math.cos(angle), topY + outlineRadius * Math.sin(angle) * 0.8);
+            }
+            items.push({ type: 'REACH', id: `reach-${key}`, depth: y + 0.5, points, color: reach.costCoins === 0 ? '#22d3ee' : '#f59e0b' });
+        });
+
         const startHex = grid[getHexKey(player.q, player.r)];
         const startLevel = startHex ? startHex.maxLevel : 0;
         neighbors.forEach(neighbor => {
@@ -397,9 +416,7 @@ const GameView: React.FC = () => {
                     const endH = hex ? (10 + hex.maxLevel * 6) : 10;
                     const sY = start.y - startH;
                     const eY = end.y - endH;
-                    let cost = 1;
-                    if (hex && hex.maxLevel >= 2) cost = hex.maxLevel;
-                    const canAfford = player.moves >= cost || player.coins >= (cost * EXCHANGE_RATE_COINS_PER_MOVE);
+                    const canAfford = getMovementCostModel().quote([neighbor], grid, player).canAfford;
                     items.push({
                         type: 'CONN', id: `conn-${key}`, depth: Math.min(start.y, end.y),
                         points: [start.x, sY, end.x, eY], color: canAfford ? '#3b82f6' : '#ef4444',
@@ -476,6 +493,8 @@ const GameView: React.FC = () => {
                     );
                 } else if (item.type === 'CONN') {
                     return <Line key={item.id} points={item.points} stroke={item.color} strokeWidth={2} dash={item.dash} opacity={item.opacity} listening={false} perfectDrawEnabled={false} />;
+                } else if (item.type === 'REACH') {
+                    return <Line key={item.id} points={item.points} closed stroke={item.color} strokeWidth={1.5} opacity={0.35} listening={false} perfectDrawEnabled={false} />;
                 }
                 return null;
             })}
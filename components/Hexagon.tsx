@@ -2,12 +2,13 @@
 
 
 import React, { useEffect, useRef, useMemo } from 'react';
-import { Group, Path, Shape, Circle } from 'react-konva';
+import { Group, Path, Shape, Circle, Rect, Star } from 'react-konva';
 import Konva from 'konva';
 import { Hex } from '../types.ts';
 import { HEX_SIZE, GAME_CONFIG } from '../rules/config.ts';
 import { getSecondsToGrow, hexToPixel } from '../services/hexUtils.ts';
 import { useGameStore } from '../store.ts';
+import { getStructureMaxHp } from '../rules/structures.ts';
 
 interface HexagonVisualProps {
   hex: Hex;
@@ -15,6 +16,7 @@ interface HexagonVisualProps {
   playerRank: number;
   isOccupied: boolean;
   isSelected: boolean; 
+  viewerId?: string; // Traps are only visible to their owner
   onHexClick: (q: number, r: number) => void;
   onHover: (id: string | null) => void;
 }
@@ -35,6 +37,7 @@ const LEVEL_COLORS: Record<number, { fill: string; stroke: string; side: string
 };
 
 const LOCK_PATH = "M12 1a5 5 0 0 0-5 5v2H6a2 2 0 0 0-2 2v10a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V10a2 2 0 0 0-2-2h-1V6a5 5 0 0 0-5-5zm0 2a3 3 0 0 1 3 3v2H9V6a3 3 0 0 1 3-3z";
+const MINE_GEM_PATH = "M0 -14 L6 -8 L0 -2 L-6 -8 Z";
 
 // Determine crater positions based on damage (0 to 6)
 // Deterministic random to ensure craters don't move between renders
@@ -77,7 +80,29 @@ const getCraters = (q: number, r: number, damage: number, offsetY: number) => {
     return craters;
 };
 
-const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, rotation, playerRank, isOccupied, isSelected, onHexClick, onHover }) => {
+// Bridge deck: two rails between opposite corners of the top face, with planks across
+const getBridgeDeckPath = (topPoints: number[]): string => {
+    const [ax, ay] = [topPoints[0], topPoints[1]];
+    const [bx, by] = [topPoints[6], topPoints[7]];
+    const len = Math.hypot(bx - ax, by - ay) || 1;
+    const nx = (-(by - ay) / len) * 8;
+    const ny = ((bx - ax) / len) * 8;
+    const at = (t: number) => ({ x: ax + (bx - ax) * t, y: ay + (by - ay) * t });
+
+    const segments: string[] = [];
+    for (const side of [1, -1]) {
+        const from = at(0.1);
+        const to = at(0.9);
+        segments.push(`M ${from.x + nx * side} ${from.y + ny * side} L ${to.x + nx * side} ${to.y + ny * side}`);
+    }
+    for (let t = 0.2; t < 0.85; t += 0.15) {
+        const p = at(t);
+        segments.push(`M ${p.x + nx} ${p.y + ny} L ${p.x - nx} ${p.y - ny}`);
+    }
+    return segments.join(' ');
+};
+
+const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, rotation, playerRank, isOccupied, isSelected, viewerId, onHexClick, onHover }) => {
   const groupRef = useRef<Konva.Group>(null);
   const progressShapeRef = useRef<Konva.Shape>(null);
   const selectionRef = useRef<Konva.Path>(null);
@@ -88,6 +113,8 @@ const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, rotation,
   
   const { x, y } = hexToPixel(hex.q, hex.r, rotation);
   const isVoid = hex.structureType === 'VOID';
+  const isBridge = hex.structureType === 'BRIDGE';
+  const isHole = isVoid || isBridge; // A bridge spans a hole: same flat geometry
   const levelIndex = isVoid ? 0 : Math.min(hex.maxLevel, 11);
   const colorSet = LEVEL_COLORS[levelIndex] || LEVEL_COLORS[0];
 
@@ -96,7 +123,7 @@ const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, rotation,
   let sideColor = isVoid ? '#000000' : colorSet.side;
   let strokeWidth = isVoid ? 0 : 1;
 
-  const hexHeight = isVoid ? 2 : (10 + (hex.maxLevel * 6));
+  const hexHeight = isHole ? 2 : (10 + (hex.maxLevel * 6));
   const offsetY = -hexHeight;
 
   const isGrowing = hex.progress > 0 && !isVoid;
@@ -111,6 +138,14 @@ const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, rotation,
   const currentLives = hex.durability !== undefined ? hex.durability : maxLives;
   const damage = Math.max(0, maxLives - currentLives);
 
+  // Structures
+  const isMine = hex.structureType === 'MINE';
+  const isBarrier = hex.structureType === 'BARRIER';
+  const isCapital = hex.structureType === 'CAPITAL';
+  const showTrap = !!hex.trap?.active && !!viewerId && hex.ownerId === viewerId;
+  const structureMaxHp = getStructureMaxHp(hex);
+  const structureHpRatio = structureMaxHp > 0 ? Math.max(0, (hex.structureHp ?? structureMaxHp) / structureMaxHp) : 1;
+
   // Geometry Calculation
   const { topPoints, sortedFaces, selectionPathData, craters } = useMemo(() => {
     const getPoint = (i: number, cy: number, radius: number = HEX_SIZE) => {
@@ -134,7 +169,7 @@ const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, rotation,
         selectionTops.push(getPoint(i, offsetY, selRadius));
     }
 
-    if (!isVoid) {
+    if (!isHole) {
         for (let i = 0; i < 6; i++) {
             const next = (i + 1) % 6;
             const facePoints = [
@@ -156,7 +191,7 @@ const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, rotation,
     const craters = isFragile ? getCraters(hex.q, hex.r, damage, offsetY) : [];
 
     return { topPoints: topPathPoints, sortedFaces: faces, selectionPathData, craters };
-  }, [rotation, offsetY, isVoid, isFragile, damage, hex.q, hex.r]);
+  }, [rotation, offsetY, isHole, isFragile, damage, hex.q, hex.r]);
 
 
   // CLICK HANDLER
@@ -239,10 +274,18 @@ const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, rotation,
       prevStructureRef.current = hex.structureType;
   }, [hex.structureType, y]);
 
-  // --- RENDER VOID ---
-  if (isVoid) {
+  // --- RENDER VOID (and BRIDGE over it) ---
+  if (isHole) {
       return (
-        <Group ref={voidGroupRef} x={x} y={y}>
+        <Group
+          ref={voidGroupRef}
+          x={x}
+          y={y}
+          onClick={isBridge ? handleClick : undefined}
+          onTap={isBridge ? handleClick : undefined}
+          onMouseEnter={() => onHover(hex.id)}
+          onMouseLeave={() => onHover(null)}
+        >
             <Path
                  data={`M ${topPoints[0]} ${topPoints[1]} L ${topPoints[2]} ${topPoints[3]} L ${topPoints[4]} ${topPoints[5]} L ${topPoints[6]} ${topPoints[7]} L ${topPoints[8]} ${topPoints[9]} L ${topPoints[10]} ${topPoints[11]} Z`}
                  fill="#020617"
@@ -262,6 +305,28 @@ const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, rotation,
                  opacity={0.6}
                  blurRadius={4}
             />
+            {isBridge && (
+              <Path
+                data={getBridgeDeckPath(topPoints)}
+                stroke="#a16207"
+                strokeWidth={3}
+                lineCap="round"
+                perfectDrawEnabled={false}
+                shadowColor="black"
+                shadowBlur={4}
+                listening={false}
+              />
+            )}
+            {isBridge && isSelected && (
+              <Path
+                data={selectionPathData}
+                stroke="#22d3ee"
+                strokeWidth={1.5}
+                fillEnabled={false}
+                perfectDrawEnabled={false}
+                listening={false}
+              />
+            )}
         </Group>
       );
   }
@@ -323,6 +388,53 @@ const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, rotation,
           />
       ))}
 
+      {/* 2.6 MINE (shaft + ore) */}
+      {isMine && (
+        <Group x={0} y={offsetY} listening={false}>
+          <Circle radius={11} scaleY={0.55} fill="#0f172a" stroke="#fbbf24" strokeWidth={1.5} />
+          <Path data={MINE_GEM_PATH} fill="#fbbf24" stroke="#b45309" strokeWidth={1} shadowColor="#fbbf24" shadowBlur={6} />
+        </Group>
+      )}
+
+      {/* 2.7 BARRIER (wall along the rim) */}
+      {isBarrier && (
+        <Path
+          data={selectionPathData}
+          stroke="#a5b4fc"
+          strokeWidth={4}
+          lineJoin="round"
+          shadowColor="#6366f1"
+          shadowBlur={8}
+          opacity={0.9}
+          listening={false}
+        />
+      )}
+
+      {/* 2.8 CAPITAL (spire + crown star, visible from afar) */}
+      {isCapital && (
+        <Group x={0} y={offsetY} listening={false}>
+          <Circle radius={13} scaleY={0.55} fill="rgba(251,191,36,0.15)" stroke="#f59e0b" strokeWidth={1.5} />
+          <Rect x={-3} y={-22} width={6} height={22} fill="#fde68a" stroke="#b45309" strokeWidth={1} cornerRadius={1} />
+          <Star y={-26} numPoints={5} innerRadius={3} outerRadius={7} fill="#fbbf24" stroke="#b45309" strokeWidth={1} shadowColor="#fbbf24" shadowBlur={10} />
+        </Group>
+      )}
+
+      {/* 2.9 TRAP (owner only) */}
+      {showTrap && (
+        <Group x={0} y={offsetY} listening={false}>
+          <Circle radius={9} scaleY={0.6} stroke="#f87171" strokeWidth={1.5} dash={[3, 2]} />
+          <Path data="M-5 0 L5 0 M0 -3 L0 3" stroke="#f87171" strokeWidth={1.5} />
+        </Group>
+      )}
+
+      {/* 2.10 STRUCTURE HP (once damaged) */}
+      {structureHpRatio < 1 && (
+        <Group x={0} y={offsetY + 8} listening={false}>
+          <Rect x={-12} width={24} height={3} fill="rgba(0,0,0,0.7)" cornerRadius={1.5} />
+          <Rect x={-12} width={24 * structureHpRatio} height={3} fill={structureHpRatio > 0.5 ? "#34d399" : "#ef4444"} cornerRadius={1.5} />
+        </Group>
+      )}
+
       {/* 3. SELECTION */}
       {isSelected && (
           <Path
@@ -394,8 +506,9 @@ interface SmartHexagonProps {
 
 const SmartHexagon: React.FC<SmartHexagonProps> = React.memo((props) => {
   const hex = useGameStore(state => state.session?.grid[props.id]);
+  const viewerId = useGameStore(state => state.session?.player.id);
   if (!hex) return null;
-  return <HexagonVisual hex={hex} {...props} />;
+  return <HexagonVisual hex={hex} viewerId={viewerId} {...props} />;
 });
 
 export default SmartHexagon;
\ No newline at end of file
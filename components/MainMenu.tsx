@@ -5,8 +5,9 @@
 
 import React, { useState } from 'react';
 import { useGameStore } from '../store.ts';
-import { Trophy, LogOut, Ghost, Play, ArrowRight, Zap, Shield, UserCircle, X, LogIn, Lock, Target, Gem, Crown, Bot, Skull, Activity, Signal, Volume2, VolumeX } from 'lucide-react';
+import { Trophy, LogOut, Ghost, Play, ArrowRight, Zap, Shield, UserCircle, X, LogIn, Lock, Target, Gem, Crown, Bot, Skull, Activity, Signal, Volume2, VolumeX, Save } from 'lucide-react';
 import { WinCondition, Difficulty } from '../types.ts';
+import { AUTOSAVE_SLOT } from '../services/saveService.ts';
 
 const AVATAR_COLORS = [
   '#ef4444', // Red
@@ -41,6 +42,10 @@ const MainMenu: React.FC = () => {
   const loginUser = useGameStore(state => state.loginUser);
   const registerUser = useGameStore(state => state.registerUser);
   const abandonSession = useGameStore(state => state.abandonSession);
+  const resumeSession = useGameStore(state => state.resumeSession);
+  const loadSession = useGameStore(state => state.loadSession);
+  const deleteSave = useGameStore(state => state.deleteSave);
+  const saveSlots = useGameStore(state => state.saveSlots);
   const toggleMute = useGameStore(state => state.toggleMute);
   const playUiSound = useGameStore(state => state.playUiSound);
 
@@ -239,13 +244,35 @@ const MainMenu: React.FC = () => {
 
           {hasActiveSession && (
              <MenuButton 
-              onClick={() => { setUIState('GAME'); playUiSound('CLICK'); }}
+              onClick={resumeSession}
               icon={<ArrowRight className="w-5 h-5" />}
               label="Resume Session"
               subLabel="Return to active command"
             />
           )}
 
+          {saveSlots.filter(s => s.slot !== AUTOSAVE_SLOT).map(s => (
+            <div key={s.slot} className="flex items-stretch gap-2">
+              <MenuButton 
+                onClick={() => {
+                   playUiSound('CLICK');
+                   if (!hasActiveSession || window.confirm("Active session will be replaced. Load save?")) {
+                      loadSession(s.slot);
+                   }
+                }}
+                icon={<Save className="w-5 h-5" />}
+                label={`Load: ${s.label}`}
+                subLabel={new Date(s.savedAt).toLocaleString()}
+              />
+              <button 
+                onClick={() => { playUiSound('CLICK'); if (window.confirm("Delete this save?")) deleteSave(s.slot); }}
+                className="cursor-pointer px-3 rounded-2xl border border-slate-800 bg-slate-900/50 text-slate-500 hover:text-red-400 hover:border-red-900/50"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
           <MenuButton 
             onClick={() => { setUIState('LEADERBOARD'); playUiSound('CLICK'); }}
             icon={<Trophy className="w-5 h-5" />}
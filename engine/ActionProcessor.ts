@@ -1,15 +1,27 @@
 import { GameState, GameAction, EntityType, EntityState, ValidationResult, SessionState } from '../types';
 import { WorldIndex } from './WorldIndex';
+import { Ledger } from './Ledger';
 import { getHexKey } from '../services/hexUtils';
 import { checkGrowthCondition } from '../rules/growth';
-import { GAME_CONFIG, SAFETY_CONFIG, DIFFICULTY_SETTINGS } from '../rules/config';
+import { checkBuildCondition, buildStructure, getStructureCost } from '../rules/structures';
+import { checkMovePath } from '../rules/movement';
+import { checkTrapCondition, armTrap } from '../rules/traps';
+import { checkCaptureCondition } from '../rules/capture';
+import { checkBridgeCondition, buildBridge } from '../rules/terrain';
+import { checkRepairCondition } from '../rules/repair';
+import { MovementCostModel, movementCostModel } from '../rules/movementCost';
+import { SAFETY_CONFIG, DIFFICULTY_SETTINGS, GAME_CONFIG } from '../rules/config';
 
 /**
  * ActionProcessor is now a STATELESS service.
  * It operates on the state object passed into its methods.
  */
 export class ActionProcessor {
-  constructor() {}
+  public readonly movementCost: MovementCostModel;
+
+  constructor(movementCost: MovementCostModel = movementCostModel) {
+    this.movementCost = movementCost;
+  }
   
   public validateAction(state: SessionState, index: WorldIndex, actorId: string, action: GameAction): ValidationResult {
     const actor = state.player.id === actorId ? state.player : state.bots.find(b => b.id === actorId);
@@ -28,6 +40,21 @@ export class ActionProcessor {
             const hex = state.grid[key];
             if (!hex) return { ok: false, reason: 'Invalid Coord' };
 
+            // Structure build: instant, paid up front (skips growth rules)
+            if (action.upgradeType && action.upgradeType !== 'DEFAULT') {
+                if (actor.state === EntityState.MOVING) return { ok: false, reason: 'Cannot build while moving' };
+                const build = checkBuildCondition(hex, actor, action.upgradeType, index.getStructures(action.upgradeType));
+                if (!build.canBuild) return { ok: false, reason: build.reason };
+                break;
+            }
+
+            // Hostile capture: timed, handled by GrowthSystem (skips growth rules)
+            if (action.intent === 'CAPTURE') {
+                const capture = checkCaptureCondition(hex, actor);
+                if (!capture.canCapture) return { ok: false, reason: capture.reason };
+                break;
+            }
+
             // Special Case: RECOVER intent on owned hex is always allowed (skips growth rules)
             if (action.intent === 'RECOVER') {
                 if (hex.ownerId === actor.id) {
@@ -55,33 +82,48 @@ export class ActionProcessor {
                 return { ok: false, reason: 'Path too long (Safety Limit)' };
             }
 
+            // SECURITY CHECK: Revalidate every step with the pathfinder's rules (no teleporting)
+            const pathCheck = checkMovePath(actor, action.path, state.grid, actor.playerLevel, actor.id);
+            if (!pathCheck.ok) return { ok: false, reason: `Invalid path: ${pathCheck.reason}` };
+
             const destination = action.path[action.path.length - 1];
             const entityAtDest = index.getEntityAt(destination.q, destination.r);
             if (entityAtDest && entityAtDest.id !== actor.id) {
                 return { ok: false, reason: `Destination (${destination.q},${destination.r}) is occupied by ${entityAtDest.id}` };
             }
 
-            let totalMoveCost = 0;
-            for (const step of action.path) {
-                const hex = state.grid[getHexKey(step.q, step.r)];
-                totalMoveCost += (hex && hex.maxLevel >= 2) ? hex.maxLevel : 1;
-            }
-            
             // Logic: Calculate move deficit. If we don't have enough moves, we pay in coins.
-            const movesDeficit = Math.max(0, totalMoveCost - actor.moves);
-            const costCoins = movesDeficit * GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE;
-
-            if (actor.coins < costCoins) {
-                return { ok: false, reason: `Insufficient credits. Need ${costCoins}, have ${actor.coins}.` };
+            const quote = this.movementCost.quote(action.path, state.grid, actor);
+            if (!quote.canAfford) {
+                return { ok: false, reason: `Insufficient credits. Need ${quote.costCoins}, have ${actor.coins}.` };
             }
             break;
         }
         case 'RECHARGE_MOVE': {
-            if (actor.coins < GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE) {
+            if (actor.coins < this.movementCost.coinsForMoves(1)) {
                 return { ok: false, reason: 'Insufficient credits for recharge.' };
             }
             break;
         }
+        case 'ARM_TRAP': {
+            if (actor.state === EntityState.MOVING) return { ok: false, reason: 'Cannot arm while moving' };
+            const trap = checkTrapCondition(state.grid[getHexKey(action.coord.q, action.coord.r)], actor);
+            if (!trap.canArm) return { ok: false, reason: trap.reason };
+            break;
+        }
+        case 'REPAIR': {
+            // Timed, handled by GrowthSystem (pays per restored point)
+            if (actor.state === EntityState.MOVING) return { ok: false, reason: 'Cannot repair while moving' };
+            const repair = checkRepairCondition(state.grid[getHexKey(action.coord.q, action.coord.r)], actor, action.payWith);
+            if (!repair.canRepair) return { ok: false, reason: repair.reason };
+            break;
+        }
+        case 'BUILD_BRIDGE': {
+            if (actor.state === EntityState.MOVING) return { ok: false, reason: 'Cannot build while moving' };
+            const bridge = checkBridgeCondition(state.grid[getHexKey(action.coord.q, action.coord.r)], actor);
+            if (!bridge.canBridge) return { ok: false, reason: bridge.reason };
+            break;
+        }
     }
 
     return { ok: true };
@@ -121,29 +163,37 @@ export class ActionProcessor {
 
     switch (action.type) {
       case 'MOVE': {
-        let totalMoveCost = 0;
-        for (const step of action.path) {
-            const hex = state.grid[getHexKey(step.q, step.r)];
-            totalMoveCost += (hex && hex.maxLevel >= 2) ? hex.maxLevel : 1;
-        }
-
-        // Apply simplified cost logic
-        const movesDeficit = Math.max(0, totalMoveCost - actor.moves);
-        const costCoins = movesDeficit * GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE;
-        const costMoves = totalMoveCost - movesDeficit;
-
-        actor.moves -= costMoves;
-        actor.coins -= costCoins;
+        const quote = this.movementCost.quote(action.path, state.grid, actor);
+        const destination = action.path[action.path.length - 1];
+        Ledger.moves(actor, -quote.costMoves, 'MOVE', state.tick, destination);
+        Ledger.coins(actor, -quote.costCoins, 'MOVE', state.tick, destination);
         
         actor.movementQueue = action.path;
         break;
       }
       case 'UPGRADE':
+        if (action.upgradeType && action.upgradeType !== 'DEFAULT') {
+            const hex = state.grid[getHexKey(action.coord.q, action.coord.r)];
+            Ledger.coins(actor, -getStructureCost(action.upgradeType), 'STRUCTURE', state.tick, action.coord);
+            index.setHex(state, buildStructure(hex, action.upgradeType));
+            break;
+        }
         actor.movementQueue = [{ q: action.coord.q, r: action.coord.r, upgrade: true, intent: action.intent }];
         break;
       case 'RECHARGE_MOVE':
-        actor.coins -= GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE;
-        actor.moves += 1;
+        Ledger.coins(actor, -this.movementCost.coinsForMoves(1), 'RECHARGE', state.tick);
+        Ledger.moves(actor, 1, 'RECHARGE', state.tick);
+        break;
+      case 'ARM_TRAP':
+        Ledger.coins(actor, -GAME_CONFIG.TRAP.cost, 'TRAP', state.tick, action.coord);
+        index.setHex(state, armTrap(state.grid[getHexKey(action.coord.q, action.coord.r)]));
+        break;
+      case 'REPAIR':
+        actor.movementQueue = [{ q: action.coord.q, r: action.coord.r, upgrade: true, intent: 'REPAIR', payWith: action.payWith }];
+        break;
+      case 'BUILD_BRIDGE':
+        Ledger.coins(actor, -GAME_CONFIG.VOID.bridgeCost, 'BRIDGE', state.tick, action.coord);
+        index.setHex(state, buildBridge(state.grid[getHexKey(action.coord.q, action.coord.r)]));
         break;
       case 'WAIT':
         break;
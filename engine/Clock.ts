@@ -0,0 +1,77 @@
+import { GAME_CONFIG } from '../rules/config';
+
+/**
+ * Clock - Time source owned by GameEngine.
+ * The engine samples it ONCE per tick and hands that timestamp to every system,
+ * so systems never read wall-clock time directly.
+ */
+export interface Clock {
+  /** Current time in milliseconds. */
+  now(): number;
+  /** Called by GameEngine at the start of every simulation tick. */
+  tick(): void;
+}
+
+/**
+ * Wall-clock time. Used by the interactive game where ticks are driven by a real timer.
+ */
+export class SystemClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  tick(): void {
+    // Real time advances on its own
+  }
+}
+
+/**
+ * Deterministic clock for headless runs, tests and fast-forward.
+ * Time only moves when the engine ticks (by `tickMs`) or when advanced explicitly.
+ */
+export class SimulatedClock implements Clock {
+  private time: number;
+  public readonly tickMs: number;
+
+  constructor(startTime: number = 0, tickMs: number = GAME_CONFIG.TICK_INTERVAL_MS) {
+    this.time = startTime;
+    this.tickMs = tickMs;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  tick(): void {
+    this.time += this.tickMs;
+  }
+
+  /**
+   * Skips ahead without running any ticks (e.g. to expire throttles).
+   */
+  advance(ms: number): void {
+    this.time += Math.max(0, ms);
+  }
+}
+
+/**
+ * Plays back the tick timestamps captured by SessionRecorder, so a replay sees
+ * exactly the times the original session saw (wall-clock or simulated).
+ */
+export class ReplayClock implements Clock {
+  private times: number[];
+  private cursor: number = 0;
+
+  constructor(times: number[]) {
+    this.times = times;
+  }
+
+  now(): number {
+    if (this.times.length === 0) return 0;
+    return this.times[Math.min(Math.max(this.cursor - 1, 0), this.times.length - 1)];
+  }
+
+  tick(): void {
+    this.cursor++;
+  }
+}
@@ -0,0 +1,62 @@
+import { GameEvent, GameEventOf, GameEventType, SessionState } from '../types';
+
+export type GameEventListener<T extends GameEventType> = (event: GameEventOf<T>, state: SessionState) => void;
+export type AnyGameEventListener = (event: GameEvent, state: SessionState) => void;
+
+/**
+ * EventBus - Typed publish/subscribe for engine events.
+ * GameEngine emits each tick's events after the state is committed, so listeners
+ * (audio, effects, persistence) see the post-tick state.
+ */
+export class EventBus {
+  private listeners = new Map<GameEventType, Set<AnyGameEventListener>>();
+  private anyListeners = new Set<AnyGameEventListener>();
+
+  /**
+   * Subscribes to a single event type. Returns the unsubscribe function.
+   */
+  public on<T extends GameEventType>(type: T, listener: GameEventListener<NoInfer<T>>): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener as AnyGameEventListener);
+    return () => this.off(type, listener);
+  }
+
+  public off<T extends GameEventType>(type: T, listener: GameEventListener<NoInfer<T>>) {
+    this.listeners.get(type)?.delete(listener as AnyGameEventListener);
+  }
+
+  /**
+   * Subscribes to every event type (telemetry, debugging).
+   */
+  public onAny(listener: AnyGameEventListener): () => void {
+    this.anyListeners.add(listener);
+    return () => this.anyListeners.delete(listener);
+  }
+
+  public emit(events: GameEvent[], state: SessionState) {
+    for (const event of events) {
+      // Copy so listeners may unsubscribe while being notified
+      const typed = this.listeners.get(event.type);
+      if (typed) [...typed].forEach(l => this.notify(l, event, state));
+      [...this.anyListeners].forEach(l => this.notify(l, event, state));
+    }
+  }
+
+  public clear() {
+    this.listeners.clear();
+    this.anyListeners.clear();
+  }
+
+  private notify(listener: AnyGameEventListener, event: GameEvent, state: SessionState) {
+    try {
+      listener(event, state);
+    } catch (e) {
+      // A faulty listener must not break the simulation loop
+      console.error(`Event listener failed for ${event.type}`, e);
+    }
+  }
+}
@@ -1,17 +1,50 @@
 
 import { GameState, GameAction, GameEvent, ValidationResult, SessionState, EntityState } from '../types';
 import { WorldIndex } from './WorldIndex';
-import { System } from './systems/System';
+import { SystemPipeline, CORE_SYSTEMS } from './systems/SystemPipeline';
 import { MovementSystem } from './systems/MovementSystem';
 import { GrowthSystem } from './systems/GrowthSystem';
 import { AiSystem } from './systems/AiSystem';
 import { VictorySystem } from './systems/VictorySystem';
+import { StructureSystem } from './systems/StructureSystem';
+import { EconomySystem } from './systems/EconomySystem';
+import { DecaySystem } from './systems/DecaySystem';
+import { TerrainSystem } from './systems/TerrainSystem';
 import { ActionProcessor } from './ActionProcessor';
+import { SeededRandom } from './SeededRandom';
+import { Clock, SystemClock } from './Clock';
+import { SessionRecorder, SessionJournal } from './SessionRecorder';
+import { EventBus } from './EventBus';
+import { StateDiff, diffStates } from './StateDiff';
+import { InvariantChecker, InvariantReportHandler } from './InvariantChecker';
+import { HierarchicalPathfinder } from './HierarchicalPathfinder';
 import { SAFETY_CONFIG } from '../rules/config';
+import { MovementCostModel } from '../rules/movementCost';
 
 export interface TickResult {
   state: SessionState;
   events: GameEvent[];
+  // Present when the engine was created with `diffs: true`
+  diff?: StateDiff;
+}
+
+export interface ActionResult extends ValidationResult {
+  diff?: StateDiff;
+}
+
+export interface GameEngineOptions {
+  // Time source for all systems. Defaults to wall-clock time.
+  clock?: Clock;
+  // Journal accepted inputs for replay (see SessionReplay).
+  record?: boolean;
+  // Add, remove, reorder or configure systems on top of the default pipeline.
+  configureSystems?: (pipeline: SystemPipeline) => void;
+  // Compute a StateDiff for every tick/action (rendering, remote sync).
+  diffs?: boolean;
+  // Dev builds: check game invariants after every system and action (see InvariantChecker).
+  invariants?: InvariantReportHandler;
+  // Movement pricing ruleset (defaults to GAME_CONFIG rates).
+  movementCost?: MovementCostModel;
 }
 
 /**
@@ -24,35 +57,105 @@ export class GameEngine {
   // Fix: Properties are nullable to handle destruction lifecycle safely without 'as any' hacks.
   private _state: SessionState | null;
   private _index: WorldIndex | null;
-  private _systems: System[];
+  private _pipeline: SystemPipeline;
   private _actionProcessor: ActionProcessor | null;
+  private _clock: Clock;
+  private _recorder: SessionRecorder | null;
+  private _events: EventBus;
+  private _diffs: boolean;
+  private _invariants: InvariantChecker | null;
+  private _pathfinder: HierarchicalPathfinder | null;
 
-  constructor(initialState: SessionState) {
+  constructor(initialState: SessionState, options: GameEngineOptions = {}) {
     // Initial deep copy is acceptable for setup
     this._state = JSON.parse(JSON.stringify(initialState));
     this._state!.stateVersion = this._state!.stateVersion || 0;
+    this._state!.tick = this._state!.tick || 0;
+
+    // Determinism: sessions without a stored seed derive one from their id
+    if (this._state!.seed === undefined) {
+        this._state!.seed = SeededRandom.seedFromString(this._state!.sessionId || '');
+    }
+    if (this._state!.rngState === undefined) {
+        this._state!.rngState = this._state!.seed;
+    }
     
+    this._clock = options.clock || new SystemClock();
+    this._recorder = options.record ? new SessionRecorder(this._state!) : null;
+    this._events = new EventBus();
+    this._diffs = !!options.diffs;
+    this._invariants = options.invariants ? new InvariantChecker(options.invariants) : null;
     this._index = new WorldIndex(this._state!.grid, [this._state!.player, ...this._state!.bots]);
-    this._actionProcessor = new ActionProcessor();
+    this._actionProcessor = new ActionProcessor(options.movementCost);
+    this._pathfinder = new HierarchicalPathfinder(this._actionProcessor.movementCost);
+    this._index.addObserver(this._pathfinder);
     
-    this._systems = [
-      new GrowthSystem(),
-      new AiSystem(this._actionProcessor!),
-      new MovementSystem(),
-      new VictorySystem()
-    ];
+    this._pipeline = GameEngine.createDefaultPipeline(this._actionProcessor);
+    options.configureSystems?.(this._pipeline);
+  }
+
+  /**
+   * Default system order: growth -> AI decisions -> movement -> structures -> economy -> decay -> terrain -> victory check.
+   */
+  public static createDefaultPipeline(actionProcessor: ActionProcessor): SystemPipeline {
+    return new SystemPipeline()
+      .register(CORE_SYSTEMS.GROWTH, new GrowthSystem())
+      .register(CORE_SYSTEMS.AI, new AiSystem(actionProcessor))
+      .register(CORE_SYSTEMS.MOVEMENT, new MovementSystem())
+      .register(CORE_SYSTEMS.STRUCTURES, new StructureSystem())
+      .register(CORE_SYSTEMS.ECONOMY, new EconomySystem())
+      .register(CORE_SYSTEMS.DECAY, new DecaySystem())
+      .register(CORE_SYSTEMS.TERRAIN, new TerrainSystem())
+      .register(CORE_SYSTEMS.VICTORY, new VictorySystem());
   }
 
   public get state(): SessionState | null {
     return this._state;
   }
 
+  public get clock(): Clock {
+    return this._clock;
+  }
+
+  /**
+   * The cost model this engine charges with. UI quotes should use it too.
+   */
+  public get movementCost(): MovementCostModel | null {
+    return this._actionProcessor ? this._actionProcessor.movementCost : null;
+  }
+
+  /**
+   * Long-distance route planner; its region caches follow this engine's grid changes.
+   */
+  public get pathfinder(): HierarchicalPathfinder | null {
+    return this._pathfinder;
+  }
+
+  public get pipeline(): SystemPipeline {
+    return this._pipeline;
+  }
+
+  /**
+   * Subscribe here instead of scanning TickResult.events.
+   */
+  public get events(): EventBus {
+    return this._events;
+  }
+
+  /**
+   * Snapshot of the input journal, or null if recording is disabled.
+   * Covers at most the last SAFETY_CONFIG.MAX_JOURNAL_TICKS ticks.
+   */
+  public exportJournal(): SessionJournal | null {
+    return this._recorder ? this._recorder.export() : null;
+  }
+
   /**
    * Optimized State Cloning
    * Replaces JSON.parse(JSON.stringify) with structural shallow copying.
    * PERFORMANCE FIX: We copy `grid` by REFERENCE. 
-   * Systems MUST adhere to Copy-On-Write pattern when modifying grid cells.
-   * i.e. state.grid = { ...state.grid, [key]: newHex }
+   * Systems MUST adhere to Copy-On-Write pattern when modifying grid cells,
+   * i.e. write through index.setHex(state, newHex), which also keeps WorldIndex in sync.
    */
   private cloneState(source: SessionState): SessionState {
     return {
@@ -85,21 +188,25 @@ export class GameEngine {
 
   /**
    * Sync Player Intent (Growth/Upgrade Mode) from UI
+   * Returns the StateDiff of the change when the engine was created with `diffs: true`.
    */
-  public setPlayerIntent(isGrowing: boolean, intent: 'RECOVER' | 'UPGRADE' | null) {
-      if (!this._state) return;
+  public setPlayerIntent(isGrowing: boolean, intent: 'RECOVER' | 'UPGRADE' | null): StateDiff | undefined {
+      if (!this._state) return undefined;
       const nextState = this.cloneState(this._state);
       nextState.isPlayerGrowing = isGrowing;
       nextState.playerGrowthIntent = intent;
+      this._recorder?.recordIntent(nextState.player.id, nextState.stateVersion, isGrowing, intent);
       nextState.stateVersion++;
+      const diff = this._diffs ? diffStates(this._state, nextState) : undefined;
       this._state = nextState;
+      return diff;
   }
 
   /**
    * External Action Entry Point (UI)
    * Creates a temporary state copy, applies the action, and commits it on success.
    */
-  public applyAction(actorId: string, action: GameAction): ValidationResult {
+  public applyAction(actorId: string, action: GameAction): ActionResult {
     if (!this._state || !this._index || !this._actionProcessor) return { ok: false, reason: "Engine Destroyed" };
 
     const nextState = this.cloneState(this._state);
@@ -108,10 +215,13 @@ export class GameEngine {
     // This ensures that when ActionProcessor checks conditions (like coins), it sees the fresh data.
     this._index.syncState(nextState);
 
-    const result = this._actionProcessor.applyAction(nextState, this._index, actorId, action);
+    const result: ActionResult = this._actionProcessor.applyAction(nextState, this._index, actorId, action);
     
     if (result.ok) {
+        this._recorder?.recordAction(actorId, nextState.stateVersion, action);
+        this._invariants?.check(nextState, this._index, `action:${action.type}:${actorId}`, this._clock.now());
         nextState.stateVersion++;
+        if (this._diffs) result.diff = diffStates(this._state, nextState);
         this._state = nextState;
     } else {
         // If action failed, we discard nextState. 
@@ -138,19 +248,36 @@ export class GameEngine {
 
     const tickEvents: GameEvent[] = [];
 
-    for (const system of this._systems) {
-        system.update(nextState, this._index, tickEvents);
+    // Sample time once so every system sees the same tick timestamp
+    this._clock.tick();
+    const now = this._clock.now();
+    this._recorder?.recordTick(now);
+
+    for (const { id, system } of this._pipeline.getActiveEntries(nextState)) {
+        system.update(nextState, this._index, tickEvents, now);
+        this._invariants?.check(nextState, this._index, `system:${id}`, now);
     }
 
     // MEMORY PROTECTION: Enforce strict limits before committing state
     this.enforceSafetyLimits(nextState);
+    this._invariants?.check(nextState, this._index, 'engine:safety-limits', now);
 
     nextState.stateVersion++;
+    nextState.tick++;
+    const diff = this._diffs ? diffStates(this._state, nextState) : undefined;
     this._state = nextState;
 
+    // MEMORY PROTECTION: a full journal restarts from the committed state, so it always replays the latest ticks
+    if (this._recorder && this._recorder.tick >= SAFETY_CONFIG.MAX_JOURNAL_TICKS) {
+        this._recorder = new SessionRecorder(this._state);
+    }
+
+    this._events.emit(tickEvents, this._state);
+
     return {
         state: this._state,
-        events: tickEvents
+        events: tickEvents,
+        diff
     };
   }
 
@@ -184,9 +311,13 @@ export class GameEngine {
    * Hard Reset / Cleanup
    */
   public destroy() {
-    this._systems = [];
+    this._pipeline.clear();
+    this._events.clear();
     this._index = null;
     this._state = null;
     this._actionProcessor = null;
+    this._recorder = null;
+    this._invariants = null;
+    this._pathfinder = null;
   }
 }
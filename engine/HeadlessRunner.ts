@@ -0,0 +1,163 @@
+import { Difficulty, EntityState, EntityType, BotMemory, SessionState, WinCondition } from '../types';
+import { GAME_CONFIG } from '../rules/config';
+import { cubeDistance } from '../services/hexUtils';
+import { calculateBotMove } from '../bot/calculateBotMove';
+import { GameEngine } from './GameEngine';
+import { WorldIndex } from './WorldIndex';
+import { Ledger, LedgerBreakdown } from './Ledger';
+import { SeededRandom } from './SeededRandom';
+import { SimulatedClock } from './Clock';
+import { createInitialSessionData } from './session';
+
+export type PlayerPolicy = 'BOT' | 'IDLE';
+
+export interface HeadlessMatchOptions {
+  difficulty: Difficulty;
+  botCount: number;
+  targetLevel: number;
+  targetCoins: number;
+  seed: number;
+  maxTicks: number;
+  playerPolicy: PlayerPolicy;
+}
+
+export interface EntitySummary {
+  id: string;
+  type: EntityType;
+  level: number;
+  coins: number;
+  totalCoinsEarned: number;
+  moves: number;
+  hexesOwned: number;
+  // Lifetime earnings vs. spending per reason (engine/Ledger.ts)
+  ledger: { coins: LedgerBreakdown; moves: LedgerBreakdown };
+}
+
+export interface MatchSummary {
+  seed: number;
+  winner: string | null;
+  gameStatus: SessionState['gameStatus'];
+  ticks: number;
+  simulatedMs: number;
+  collapses: number;
+  entities: EntitySummary[];
+}
+
+// Fixed start time so identical options always yield identical matches
+const HEADLESS_START_TIME = 0;
+
+// Decorrelates the player policy from the session RNG stream
+const PLAYER_POLICY_SALT = 0x9E3779B9;
+
+/**
+ * Runs a full match with no UI: GameEngine.processTick in a loop on a SimulatedClock.
+ * The player is either idle or driven by the same policy as the bots.
+ */
+export const runHeadlessMatch = (options: HeadlessMatchOptions): MatchSummary => {
+  const winCondition: WinCondition = {
+    targetLevel: options.targetLevel,
+    targetCoins: options.targetCoins,
+    botCount: options.botCount,
+    difficulty: options.difficulty,
+    label: `Headless (L${options.targetLevel} + ${options.targetCoins}c)`
+  };
+
+  const initialState = createInitialSessionData(winCondition, options.seed, HEADLESS_START_TIME);
+  const clock = new SimulatedClock(HEADLESS_START_TIME);
+  const engine = new GameEngine(initialState, { clock });
+
+  const policyRng = new SeededRandom({ rngState: (options.seed ^ PLAYER_POLICY_SALT) >>> 0 });
+  let playerMemory: BotMemory | undefined = undefined;
+  let lastPlayerActionTime = HEADLESS_START_TIME;
+
+  let ticks = 0;
+  let collapses = 0;
+
+  while (ticks < options.maxTicks && engine.state && engine.state.gameStatus === 'PLAYING') {
+    const now = clock.now();
+
+    if (options.playerPolicy === 'BOT' && now - lastPlayerActionTime >= GAME_CONFIG.BOT_ACTION_INTERVAL_MS) {
+      lastPlayerActionTime = now;
+      playerMemory = drivePlayer(engine, policyRng, playerMemory);
+    }
+
+    const result = engine.processTick();
+    collapses += result.events.filter(e => e.type === 'HEX_COLLAPSE').length;
+    ticks++;
+  }
+
+  const finalState = engine.state!;
+  const summary = summarize(finalState, options.seed, ticks, clock.now() - HEADLESS_START_TIME, collapses);
+  engine.destroy();
+  return summary;
+};
+
+/**
+ * Lets the bot AI pick the player's next action and submits it through the public engine API.
+ */
+const drivePlayer = (engine: GameEngine, rng: SeededRandom, memory: BotMemory | undefined): BotMemory | undefined => {
+  const state = engine.state;
+  if (!state || state.player.state !== EntityState.IDLE || state.isPlayerGrowing) return memory;
+
+  const player = { ...state.player, memory: memory || { lastPlayerPos: null, currentGoal: null, stuckCounter: 0 } };
+  const entities = [player, ...state.bots];
+  const index = new WorldIndex(state.grid, entities);
+
+  // The bot AI reasons about "the player" as its rival; use the nearest bot
+  const rival = [...state.bots].sort((a, b) => cubeDistance(player, a) - cubeDistance(player, b))[0] || player;
+
+  const aiResult = calculateBotMove(
+    player,
+    state.grid,
+    rival,
+    state.winCondition,
+    index.getOccupiedHexesList(),
+    index,
+    state.stateVersion,
+    state.tick,
+    state.difficulty,
+    rng,
+    undefined,
+    engine.movementCost || undefined
+  );
+
+  const nextMemory = aiResult.memory;
+  if (!aiResult.action || aiResult.action.type === 'WAIT') return nextMemory;
+
+  const res = engine.applyAction(player.id, aiResult.action);
+  if (!res.ok) {
+    return { ...nextMemory, lastActionFailed: true, failReason: res.reason, stuckCounter: nextMemory.stuckCounter + 1 };
+  }
+  return nextMemory;
+};
+
+const summarize = (state: SessionState, seed: number, ticks: number, simulatedMs: number, collapses: number): MatchSummary => {
+  const entities = [state.player, ...state.bots];
+  const owned = new Map<string, number>();
+  for (const id in state.grid) {
+    const ownerId = state.grid[id].ownerId;
+    if (ownerId) owned.set(ownerId, (owned.get(ownerId) || 0) + 1);
+  }
+
+  const { targetLevel, targetCoins } = state.winCondition || { targetLevel: Infinity, targetCoins: Infinity };
+  const winner = entities.find(e => e.playerLevel >= targetLevel && e.totalCoinsEarned >= targetCoins);
+
+  return {
+    seed,
+    winner: state.gameStatus === 'PLAYING' ? null : (winner ? winner.id : null),
+    gameStatus: state.gameStatus,
+    ticks,
+    simulatedMs,
+    collapses,
+    entities: entities.map(e => ({
+      id: e.id,
+      type: e.type,
+      level: e.playerLevel,
+      coins: e.coins,
+      totalCoinsEarned: e.totalCoinsEarned,
+      moves: e.moves,
+      hexesOwned: owned.get(e.id) || 0,
+      ledger: { coins: Ledger.breakdown(e, 'COINS'), moves: Ledger.breakdown(e, 'MOVES') }
+    }))
+  };
+};
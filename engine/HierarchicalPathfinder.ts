@@ -0,0 +1,341 @@
+import { Hex, HexCoord } from '../types';
+import { SAFETY_CONFIG } from '../rules/config';
+import { getStepBlock, isHostileBarrier } from '../rules/movement';
+import { MovementCostModel, movementCostModel } from '../rules/movementCost';
+import { getHexKey, getNeighbors, cubeDistance, getCoordinatesFromKey, PriorityQueue } from '../services/hexUtils';
+import { WorldIndexObserver } from './WorldIndex';
+
+// Chunks are CHUNK_SIZE x CHUNK_SIZE axial parallelograms
+const CHUNK_SIZE = 8;
+
+// Corridor searches per route when units block the first choices
+const MAX_CORRIDOR_ATTEMPTS = 3;
+
+// Axial chunk offsets reachable by a single hex step
+const CHUNK_NEIGHBORS: [number, number][] = [[1, 0], [1, -1], [0, -1], [-1, 0], [-1, 1], [0, 1]];
+
+/**
+ * Connected set of walkable hexes inside one chunk (for a given rank).
+ */
+interface Region {
+  id: string;
+  hexes: string[];
+  center: HexCoord;     // Rounded centroid, heuristic only
+  links?: Region[];     // Regions in neighboring chunks reachable in one step (lazy)
+}
+
+interface ChunkRegions {
+  regions: Region[];
+  regionOf: Map<string, Region>; // HexKey -> Region
+}
+
+export interface PlannedRoute {
+  path: HexCoord[];        // Full route, excluding the start hex
+  segments: HexCoord[][];  // Consecutive pieces of `path`, each a legal MOVE (<= MAX_PATH_LENGTH)
+  regionCount: number;     // Regions in the corridor the route was refined in
+}
+
+const chunkCoord = (v: number) => Math.floor(v / CHUNK_SIZE);
+const chunkKeyOf = (q: number, r: number) => `${chunkCoord(q)}:${chunkCoord(r)}`;
+
+/**
+ * Splits a path into MOVE-sized segments.
+ */
+export const splitRoute = (path: HexCoord[], maxLength: number = SAFETY_CONFIG.MAX_PATH_LENGTH): HexCoord[][] => {
+  const segments: HexCoord[][] = [];
+  for (let i = 0; i < path.length; i += maxLength) {
+    segments.push(path.slice(i, i + maxLength));
+  }
+  return segments;
+};
+
+/**
+ * HierarchicalPathfinder - Long-distance routing beyond findPath's safety limits.
+ *
+ * 1. The explored world is cut into chunks; each chunk is split into regions
+ *    (connected walkable hexes for a rank). Regions and their links are cached.
+ * 2. A* over regions picks a corridor (widened by the regions bordering it).
+ * 3. A* over hexes, restricted to the corridor, produces the exact route
+ *    (same step rules and costs as findPath), which is split into MOVE segments.
+ *
+ * Only explored hexes are routed through. Caches are invalidated per chunk when a hex
+ * appears, changes level or turns VOID (register with WorldIndex.addObserver).
+ */
+export class HierarchicalPathfinder implements WorldIndexObserver {
+  // Rank -> ChunkKey -> Regions
+  private layers: Map<number, Map<string, ChunkRegions>> = new Map();
+
+  constructor(private costModel: MovementCostModel = movementCostModel) {}
+
+  // --- Cache Invalidation ---
+
+  public onHexChanged(next: Hex, prev: Hex | undefined) {
+    if (prev && prev.maxLevel === next.maxLevel && (prev.structureType === 'VOID') === (next.structureType === 'VOID')) return;
+    this.invalidateChunk(chunkCoord(next.q), chunkCoord(next.r));
+  }
+
+  public onGridRebuilt() {
+    this.clear();
+  }
+
+  public clear() {
+    this.layers.clear();
+  }
+
+  /**
+   * Drops the chunk's regions and the cached links of its neighbors (which may point into it).
+   */
+  private invalidateChunk(cq: number, cr: number) {
+    for (const chunks of this.layers.values()) {
+      chunks.delete(`${cq}:${cr}`);
+      for (const [dq, dr] of CHUNK_NEIGHBORS) {
+        chunks.get(`${cq + dq}:${cr + dr}`)?.regions.forEach(region => { region.links = undefined; });
+      }
+    }
+  }
+
+  public getCachedChunkCount(rank: number): number {
+    return this.layers.get(rank)?.size || 0;
+  }
+
+  // --- Planning ---
+
+  /**
+   * Route from `start` to `end` for an entity of `rank`, or null if unreachable through explored hexes.
+   */
+  public findRoute(
+    start: HexCoord,
+    end: HexCoord,
+    grid: Record<string, Hex>,
+    rank: number,
+    obstacles: HexCoord[],
+    actorId?: string
+  ): PlannedRoute | null {
+    const startKey = getHexKey(start.q, start.r);
+    const endKey = getHexKey(end.q, end.r);
+    if (startKey === endKey) return { path: [], segments: [], regionCount: 0 };
+
+    const obsKeys = new Set(obstacles.map(o => getHexKey(o.q, o.r)));
+    const isBlocked = (key: string) => obsKeys.has(key) || (actorId !== undefined && isHostileBarrier(grid[key], actorId));
+    if (isBlocked(endKey)) return null;
+
+    const startRegion = this.getRegionAt(start.q, start.r, grid, rank);
+    const endRegion = this.getRegionAt(end.q, end.r, grid, rank);
+    if (!startRegion || !endRegion) return null;
+
+    // Units and barriers (actor-dependent) are not part of the cached regions: if they block a corridor,
+    // avoid their regions and retry
+    const excluded = new Set<Region>();
+    for (let attempt = 0; attempt < MAX_CORRIDOR_ATTEMPTS; attempt++) {
+      const corridor = this.findCorridor(start, end, startRegion, endRegion, grid, rank, excluded);
+      if (!corridor) return null;
+
+      // Widen by one ring of linked regions so region-level ties don't force detours
+      const allowed = new Set<string>();
+      for (const region of corridor) {
+        region.hexes.forEach(key => allowed.add(key));
+        this.getLinks(region, grid, rank).forEach(link => link.hexes.forEach(key => allowed.add(key)));
+      }
+
+      const path = this.refine(start, end, grid, rank, obsKeys, allowed, actorId);
+      if (path) return { path, segments: splitRoute(path), regionCount: corridor.length };
+
+      const blocked = corridor.filter(r => r !== startRegion && r !== endRegion && r.hexes.some(isBlocked));
+      if (blocked.length === 0) return null;
+      blocked.forEach(r => excluded.add(r));
+    }
+
+    return null;
+  }
+
+  // --- Abstract Layer ---
+
+  private getChunk(cq: number, cr: number, grid: Record<string, Hex>, rank: number): ChunkRegions {
+    let chunks = this.layers.get(rank);
+    if (!chunks) {
+      chunks = new Map();
+      this.layers.set(rank, chunks);
+    }
+
+    const key = `${cq}:${cr}`;
+    let chunk = chunks.get(key);
+    if (!chunk) {
+      chunk = this.buildChunk(cq, cr, grid, rank);
+      chunks.set(key, chunk);
+    }
+    return chunk;
+  }
+
+  private getRegionAt(q: number, r: number, grid: Record<string, Hex>, rank: number): Region | undefined {
+    return this.getChunk(chunkCoord(q), chunkCoord(r), grid, rank).regionOf.get(getHexKey(q, r));
+  }
+
+  /**
+   * Flood fills the chunk's walkable hexes into regions.
+   */
+  private buildChunk(cq: number, cr: number, grid: Record<string, Hex>, rank: number): ChunkRegions {
+    const chunk: ChunkRegions = { regions: [], regionOf: new Map() };
+    const chunkKey = `${cq}:${cr}`;
+    const walkable = (hex: Hex | undefined): hex is Hex =>
+      !!hex && hex.structureType !== 'VOID' && hex.maxLevel <= rank;
+
+    for (let q = cq * CHUNK_SIZE; q < (cq + 1) * CHUNK_SIZE; q++) {
+      for (let r = cr * CHUNK_SIZE; r < (cr + 1) * CHUNK_SIZE; r++) {
+        const seedKey = getHexKey(q, r);
+        if (chunk.regionOf.has(seedKey) || !walkable(grid[seedKey])) continue;
+
+        const region: Region = { id: `${chunkKey}#${chunk.regions.length}`, hexes: [], center: { q: 0, r: 0 } };
+        const queue = [seedKey];
+        chunk.regionOf.set(seedKey, region);
+        let sumQ = 0, sumR = 0;
+
+        while (queue.length > 0) {
+          const key = queue.pop()!;
+          const hex = grid[key];
+          region.hexes.push(key);
+          sumQ += hex.q;
+          sumR += hex.r;
+
+          for (const n of getNeighbors(hex.q, hex.r)) {
+            const nKey = getHexKey(n.q, n.r);
+            const nHex = grid[nKey];
+            if (chunkKeyOf(n.q, n.r) !== chunkKey || chunk.regionOf.has(nKey) || !walkable(nHex)) continue;
+            if (getStepBlock(hex, nHex, rank)) continue;
+            chunk.regionOf.set(nKey, region);
+            queue.push(nKey);
+          }
+        }
+
+        region.center = { q: Math.round(sumQ / region.hexes.length), r: Math.round(sumR / region.hexes.length) };
+        chunk.regions.push(region);
+      }
+    }
+
+    return chunk;
+  }
+
+  private getLinks(region: Region, grid: Record<string, Hex>, rank: number): Region[] {
+    if (region.links) return region.links;
+
+    const links = new Set<Region>();
+    for (const key of region.hexes) {
+      const hex = grid[key];
+      for (const n of getNeighbors(hex.q, hex.r)) {
+        if (chunkKeyOf(n.q, n.r) === chunkKeyOf(hex.q, hex.r)) continue;
+        const other = this.getRegionAt(n.q, n.r, grid, rank);
+        if (other && !getStepBlock(hex, grid[getHexKey(n.q, n.r)], rank)) links.add(other);
+      }
+    }
+
+    region.links = [...links];
+    return region.links;
+  }
+
+  /**
+   * A* over regions. Returns the regions from start to end (inclusive).
+   * The start/end regions are measured from the actual start/end hexes, not their centroids.
+   */
+  private findCorridor(
+    start: HexCoord,
+    end: HexCoord,
+    startRegion: Region,
+    endRegion: Region,
+    grid: Record<string, Hex>,
+    rank: number,
+    excluded: Set<Region>
+  ): Region[] | null {
+    const position = (region: Region) => region === startRegion ? start : region === endRegion ? end : region.center;
+    const openSet = new PriorityQueue<Region>();
+    const cameFrom = new Map<Region, Region>();
+    const gScore = new Map<Region, number>([[startRegion, 0]]);
+    const closed = new Set<Region>();
+    openSet.push(startRegion, cubeDistance(start, end));
+
+    while (openSet.length > 0) {
+      const current = openSet.pop()!;
+      if (current === endRegion) {
+        const corridor = [current];
+        let node = current;
+        while (cameFrom.has(node)) {
+          node = cameFrom.get(node)!;
+          corridor.unshift(node);
+        }
+        return corridor;
+      }
+      if (closed.has(current)) continue;
+      closed.add(current);
+
+      for (const next of this.getLinks(current, grid, rank)) {
+        if (closed.has(next) || excluded.has(next)) continue;
+        const tentativeG = gScore.get(current)! + Math.max(1, cubeDistance(position(current), position(next)));
+        if (tentativeG < (gScore.get(next) ?? Infinity)) {
+          cameFrom.set(next, current);
+          gScore.set(next, tentativeG);
+          openSet.push(next, tentativeG + cubeDistance(position(next), end));
+        }
+      }
+    }
+
+    return null;
+  }
+
+  // --- Concrete Layer ---
+
+  /**
+   * A* over hexes (findPath rules and costs) restricted to the corridor.
+   */
+  private refine(
+    start: HexCoord,
+    end: HexCoord,
+    grid: Record<string, Hex>,
+    rank: number,
+    obsKeys: Set<string>,
+    allowed: Set<string>,
+    actorId?: string
+  ): HexCoord[] | null {
+    const startKey = getHexKey(start.q, start.r);
+    const endKey = getHexKey(end.q, end.r);
+    const openSet = new PriorityQueue<string>();
+    const cameFrom = new Map<string, string>();
+    const gScore = new Map<string, number>([[startKey, 0]]);
+    openSet.push(startKey, cubeDistance(start, end));
+
+    // Safety Break (every corridor hex can be pushed once per neighbor)
+    const maxIterations = allowed.size * 6 + 1;
+    let iterations = 0;
+
+    while (openSet.length > 0) {
+      if (iterations++ > maxIterations) return null;
+
+      const currentKey = openSet.pop()!;
+      if (currentKey === endKey) {
+        const path: HexCoord[] = [];
+        let key = endKey;
+        while (key !== startKey) {
+          path.unshift(getCoordinatesFromKey(key));
+          key = cameFrom.get(key)!;
+        }
+        return path;
+      }
+
+      const current = getCoordinatesFromKey(currentKey);
+      const currentHex = grid[currentKey];
+      for (const n of getNeighbors(current.q, current.r)) {
+        const nKey = getHexKey(n.q, n.r);
+        if (!allowed.has(nKey) || obsKeys.has(nKey)) continue;
+
+        const nHex = grid[nKey];
+        if (getStepBlock(currentHex, nHex, rank, actorId)) continue;
+
+        const tentativeG = gScore.get(currentKey)! + this.costModel.stepCost(nHex, actorId);
+        if (tentativeG < (gScore.get(nKey) ?? Infinity)) {
+          cameFrom.set(nKey, currentKey);
+          gScore.set(nKey, tentativeG);
+          openSet.push(nKey, tentativeG + cubeDistance(n, end));
+        }
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,139 @@
+import { SessionState } from '../types';
+import { WorldIndex } from './WorldIndex';
+import { getHexKey, cubeDistance } from '../services/hexUtils';
+import { serializeSession } from './SessionSerializer';
+
+export type InvariantRule =
+  | 'ENTITY_OVERLAP'
+  | 'DURABILITY_NOT_L1'
+  | 'LEVEL_ABOVE_MAX'
+  | 'OWNER_MISSING'
+  | 'VOID_HAS_LEVEL'
+  | 'BRIDGE_OWNED'
+  | 'QUEUE_NOT_CONTIGUOUS'
+  | 'INDEX_OCCUPANCY_DESYNC';
+
+export interface InvariantViolation {
+  rule: InvariantRule;
+  message: string;
+  hexKey?: string;
+  entityId?: string;
+}
+
+export interface InvariantReport {
+  // Step that introduced the violations, e.g. "system:movement" or "action:MOVE:bot-1"
+  source: string;
+  stateVersion: number;
+  timestamp: number;
+  violations: InvariantViolation[];
+  // Loadable save file (see SessionSerializer) of the offending state
+  stateDump: string;
+}
+
+export type InvariantReportHandler = (report: InvariantReport) => void;
+
+/**
+ * Pure invariant scan of a state. Cost is O(grid + entities + queues): dev/test use only.
+ */
+export const findInvariantViolations = (state: SessionState, index?: WorldIndex): InvariantViolation[] => {
+  const violations: InvariantViolation[] = [];
+  const entities = [state.player, ...state.bots];
+  const entityIds = new Set(entities.map(e => e.id));
+
+  // Entities
+  const positions = new Map<string, string>();
+  for (const e of entities) {
+    const key = getHexKey(e.q, e.r);
+    const other = positions.get(key);
+    if (other) {
+      violations.push({ rule: 'ENTITY_OVERLAP', message: `${e.id} shares ${key} with ${other}`, hexKey: key, entityId: e.id });
+    }
+    positions.set(key, e.id);
+
+    let cursor = { q: e.q, r: e.r };
+    e.movementQueue.forEach((step, i) => {
+      const expected = step.upgrade ? 0 : 1;
+      if (cubeDistance(cursor, step) !== expected) {
+        violations.push({
+          rule: 'QUEUE_NOT_CONTIGUOUS',
+          message: `${e.id} queue step ${i} (${step.q},${step.r}) is ${cubeDistance(cursor, step)} hexes from (${cursor.q},${cursor.r})`,
+          entityId: e.id
+        });
+      }
+      cursor = step;
+    });
+  }
+
+  // Hexes
+  for (const key in state.grid) {
+    const hex = state.grid[key];
+    if (hex.durability !== undefined && hex.maxLevel !== 1) {
+      violations.push({ rule: 'DURABILITY_NOT_L1', message: `${key} has durability ${hex.durability} at L${hex.maxLevel}`, hexKey: key });
+    }
+    if (hex.currentLevel > hex.maxLevel) {
+      violations.push({ rule: 'LEVEL_ABOVE_MAX', message: `${key} currentLevel ${hex.currentLevel} > maxLevel ${hex.maxLevel}`, hexKey: key });
+    }
+    if (hex.ownerId && !entityIds.has(hex.ownerId)) {
+      violations.push({ rule: 'OWNER_MISSING', message: `${key} owned by unknown entity ${hex.ownerId}`, hexKey: key });
+    }
+    const isHole = hex.structureType === 'VOID' || hex.structureType === 'BRIDGE';
+    if (isHole && (hex.currentLevel !== 0 || hex.maxLevel !== 0)) {
+      violations.push({ rule: 'VOID_HAS_LEVEL', message: `${key} is ${hex.structureType} at L${hex.currentLevel}/${hex.maxLevel}`, hexKey: key });
+    }
+    if (hex.structureType === 'BRIDGE' && hex.ownerId) {
+      violations.push({ rule: 'BRIDGE_OWNED', message: `${key} is a BRIDGE owned by ${hex.ownerId}`, hexKey: key });
+    }
+  }
+
+  // Spatial index
+  if (index) {
+    const occupancy = index.getOccupancy();
+    for (const [key, id] of positions) {
+      if (occupancy.get(key) !== id) {
+        violations.push({ rule: 'INDEX_OCCUPANCY_DESYNC', message: `Index has ${occupancy.get(key) || 'nothing'} at ${key}, expected ${id}`, hexKey: key, entityId: id });
+      }
+    }
+    for (const [key, id] of occupancy) {
+      if (positions.get(key) !== id) {
+        violations.push({ rule: 'INDEX_OCCUPANCY_DESYNC', message: `Index has stale ${id} at ${key}`, hexKey: key, entityId: id });
+      }
+    }
+  }
+
+  return violations;
+};
+
+const violationKey = (v: InvariantViolation) => `${v.rule}|${v.message}`;
+
+/**
+ * InvariantChecker - Runs after every system and action when enabled (GameEngineOptions.invariants).
+ * Only violations that are NEW since the previous check are reported, so each report
+ * names the step that introduced them.
+ */
+export class InvariantChecker {
+  private known = new Set<string>();
+  private onReport: InvariantReportHandler;
+
+  constructor(onReport: InvariantReportHandler) {
+    this.onReport = onReport;
+  }
+
+  public check(state: SessionState, index: WorldIndex, source: string, now: number): InvariantReport | null {
+    const violations = findInvariantViolations(state, index);
+    const current = new Set(violations.map(violationKey));
+    const fresh = violations.filter(v => !this.known.has(violationKey(v)));
+    this.known = current;
+
+    if (fresh.length === 0) return null;
+
+    const report: InvariantReport = {
+      source,
+      stateVersion: state.stateVersion,
+      timestamp: now,
+      violations: fresh,
+      stateDump: serializeSession(state, `Invariant violation (${source})`, now)
+    };
+    this.onReport(report);
+    return report;
+  }
+}
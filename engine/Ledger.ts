@@ -0,0 +1,76 @@
+import { Entity, EntityLedger, LedgerReason, LedgerResource, LedgerTotal } from '../types';
+import { SAFETY_CONFIG } from '../rules/config';
+
+export interface LedgerLine extends LedgerTotal {
+  reason: LedgerReason;
+}
+
+export interface LedgerBreakdown {
+  earned: number;
+  spent: number;
+  lines: LedgerLine[]; // Largest flow first
+}
+
+const emptyLedger = (): EntityLedger => ({ entries: [], totals: { COINS: {}, MOVES: {} } });
+
+/**
+ * Ledger - The only way coins and moves change.
+ * Each change is applied to the entity and recorded with its reason, tick and related hex.
+ * The ledger object is replaced on every write (Copy-On-Write), so GameEngine.cloneState can share it between states.
+ */
+export class Ledger {
+  /**
+   * Adds `amount` (negative to spend) coins. Coins earned also count towards totalCoinsEarned.
+   */
+  static coins(entity: Entity, amount: number, reason: LedgerReason, tick: number, at?: { q: number; r: number }): void {
+    if (!amount) return;
+    entity.coins += amount;
+    if (amount > 0) entity.totalCoinsEarned += amount;
+    Ledger.record(entity, 'COINS', amount, reason, tick, at);
+  }
+
+  /**
+   * Adds `amount` (negative to spend) moves.
+   */
+  static moves(entity: Entity, amount: number, reason: LedgerReason, tick: number, at?: { q: number; r: number }): void {
+    if (!amount) return;
+    entity.moves += amount;
+    Ledger.record(entity, 'MOVES', amount, reason, tick, at);
+  }
+
+  /**
+   * Lifetime earnings vs. spending of one resource, per reason.
+   */
+  static breakdown(entity: Entity, resource: LedgerResource): LedgerBreakdown {
+    const totals = entity.ledger?.totals[resource] || {};
+    const lines = (Object.keys(totals) as LedgerReason[])
+      .map(reason => ({ reason, ...totals[reason]! }))
+      .sort((a, b) => (b.earned + b.spent) - (a.earned + a.spent));
+    return {
+      earned: lines.reduce((sum, l) => sum + l.earned, 0),
+      spent: lines.reduce((sum, l) => sum + l.spent, 0),
+      lines
+    };
+  }
+
+  private static record(entity: Entity, resource: LedgerResource, amount: number, reason: LedgerReason, tick: number, at?: { q: number; r: number }) {
+    const ledger = entity.ledger || emptyLedger();
+    const total = ledger.totals[resource][reason] || { earned: 0, spent: 0 };
+
+    entity.ledger = {
+      entries: [
+        { resource, amount, reason, tick, ...(at ? { q: at.q, r: at.r } : {}) },
+        ...ledger.entries
+      ].slice(0, SAFETY_CONFIG.MAX_LEDGER_ENTRIES),
+      totals: {
+        ...ledger.totals,
+        [resource]: {
+          ...ledger.totals[resource],
+          [reason]: amount > 0
+            ? { ...total, earned: total.earned + amount }
+            : { ...total, spent: total.spent - amount }
+        }
+      }
+    };
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * SeededRandom - Deterministic PRNG (mulberry32) for the simulation.
+ * Holds no hidden state of its own: it reads and advances `rngState` on the
+ * object it is bound to (normally the SessionState being ticked), so the sequence
+ * survives cloning and two engines built from the same seed stay in lockstep.
+ * Simulation code MUST use this instead of Math.random().
+ */
+export class SeededRandom {
+  private holder: { rngState: number };
+
+  constructor(holder: { rngState: number }) {
+    this.holder = holder;
+  }
+
+  /**
+   * Returns a float in [0, 1) and advances the bound state.
+   */
+  public next(): number {
+    let t = (this.holder.rngState + 0x6D2B79F5) >>> 0;
+    this.holder.rngState = t;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Returns an integer in [0, maxExclusive).
+   */
+  public nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  public pick<T>(items: T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+
+  /**
+   * Fisher-Yates shuffle. Returns a new array, the input is left untouched.
+   */
+  public shuffle<T>(items: T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  /**
+   * Entropy source for NEW sessions only. Everything after session creation
+   * must derive from the stored seed.
+   */
+  static createSeed(): number {
+    return (Math.random() * 4294967296) >>> 0;
+  }
+
+  /**
+   * Derives a stable numeric seed from a string (FNV-1a), e.g. for sessions
+   * created before seeds were stored.
+   */
+  static seedFromString(value: string): number {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
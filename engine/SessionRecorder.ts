@@ -0,0 +1,68 @@
+import { GameAction, SessionState } from '../types';
+
+export type JournalInput =
+  | { type: 'ACTION'; action: GameAction }
+  | { type: 'INTENT'; isGrowing: boolean; intent: 'RECOVER' | 'UPGRADE' | null };
+
+export interface JournalEntry {
+  tick: number;         // Number of ticks processed before this input was applied
+  stateVersion: number; // State version the input was applied on
+  actorId: string;
+  input: JournalInput;
+}
+
+/**
+ * Serializable record of a session: everything needed to rebuild it tick by tick.
+ * Bot decisions are NOT journaled; they are reproduced from the seed.
+ */
+export interface SessionJournal {
+  journalVersion: number;
+  seed: number;
+  initialState: SessionState;
+  entries: JournalEntry[];
+  tickTimes: number[]; // Clock timestamp of every processed tick
+}
+
+export const JOURNAL_VERSION = 1;
+
+/**
+ * SessionRecorder - Journals external inputs accepted by GameEngine.
+ * Only inputs that were actually committed are recorded, so a replay
+ * applies exactly the same stream the original session saw.
+ */
+export class SessionRecorder {
+  private journal: SessionJournal;
+
+  constructor(initialState: SessionState) {
+    this.journal = {
+      journalVersion: JOURNAL_VERSION,
+      seed: initialState.seed,
+      initialState: JSON.parse(JSON.stringify(initialState)),
+      entries: [],
+      tickTimes: []
+    };
+  }
+
+  public get tick(): number {
+    return this.journal.tickTimes.length;
+  }
+
+  public recordAction(actorId: string, stateVersion: number, action: GameAction) {
+    this.journal.entries.push({ tick: this.tick, stateVersion, actorId, input: { type: 'ACTION', action } });
+  }
+
+  public recordIntent(actorId: string, stateVersion: number, isGrowing: boolean, intent: 'RECOVER' | 'UPGRADE' | null) {
+    this.journal.entries.push({ tick: this.tick, stateVersion, actorId, input: { type: 'INTENT', isGrowing, intent } });
+  }
+
+  public recordTick(timestamp: number) {
+    this.journal.tickTimes.push(timestamp);
+  }
+
+  /**
+   * Returns a detached copy, safe to serialize or attach to a bug report.
+   */
+  public export(): SessionJournal {
+    return JSON.parse(JSON.stringify(this.journal));
+  }
+}
@@ -0,0 +1,114 @@
+import { SessionState } from '../types';
+import { GameEngine, TickResult } from './GameEngine';
+import { ReplayClock } from './Clock';
+import { SessionJournal, JournalEntry } from './SessionRecorder';
+
+export interface ReplayResult {
+  state: SessionState;
+  ticks: number;
+  // First point where the replay stopped matching the journal, if any
+  divergence: string | null;
+}
+
+/**
+ * SessionReplay - Rebuilds a session from a SessionJournal tick by tick.
+ * Inputs are re-applied before the tick they were originally accepted on,
+ * then the tick runs with the recorded timestamp. Any input the rebuilt
+ * session rejects (or sees at a different stateVersion) is a divergence:
+ * the simulation no longer behaves the way it did when the journal was recorded.
+ */
+export class SessionReplay {
+  private journal: SessionJournal;
+  private engine: GameEngine;
+  private cursor: number = 0; // Next journal entry to apply
+  private tickIndex: number = 0;
+  private _divergence: string | null = null;
+
+  constructor(journal: SessionJournal) {
+    this.journal = journal;
+    this.engine = new GameEngine(journal.initialState, { clock: new ReplayClock(journal.tickTimes) });
+  }
+
+  public get state(): SessionState | null {
+    return this.engine.state;
+  }
+
+  public get tick(): number {
+    return this.tickIndex;
+  }
+
+  public get totalTicks(): number {
+    return this.journal.tickTimes.length;
+  }
+
+  public get divergence(): string | null {
+    return this._divergence;
+  }
+
+  public get isFinished(): boolean {
+    return this.tickIndex >= this.totalTicks && this.cursor >= this.journal.entries.length;
+  }
+
+  /**
+   * Applies the inputs recorded for the current tick, then processes the tick.
+   * Returns null once the journal is exhausted or the replay has diverged.
+   */
+  public step(): TickResult | null {
+    if (this._divergence) return null;
+
+    this.applyPendingInputs();
+    if (this._divergence || this.tickIndex >= this.totalTicks) return null;
+
+    const result = this.engine.processTick();
+    this.tickIndex++;
+    return result;
+  }
+
+  /**
+   * Replays up to `untilTick` (default: the whole journal).
+   */
+  public run(untilTick: number = this.totalTicks): ReplayResult {
+    while (this.tickIndex < Math.min(untilTick, this.totalTicks)) {
+      if (!this.step()) break;
+    }
+    // Trailing inputs recorded after the final tick
+    if (this.tickIndex >= this.totalTicks) this.applyPendingInputs();
+
+    return {
+      state: this.engine.state!,
+      ticks: this.tickIndex,
+      divergence: this._divergence
+    };
+  }
+
+  private applyPendingInputs() {
+    const entries = this.journal.entries;
+    while (!this._divergence && this.cursor < entries.length && entries[this.cursor].tick <= this.tickIndex) {
+      this.applyEntry(entries[this.cursor]);
+      this.cursor++;
+    }
+  }
+
+  private applyEntry(entry: JournalEntry) {
+    const state = this.engine.state;
+    if (!state) {
+        this._divergence = `Tick ${entry.tick}: engine destroyed`;
+        return;
+    }
+
+    if (state.stateVersion !== entry.stateVersion) {
+        this._divergence = `Tick ${entry.tick}: expected v${entry.stateVersion}, replay is at v${state.stateVersion}`;
+        return;
+    }
+
+    if (entry.input.type === 'INTENT') {
+        this.engine.setPlayerIntent(entry.input.isGrowing, entry.input.intent);
+        return;
+    }
+
+    const res = this.engine.applyAction(entry.actorId, entry.input.action);
+    if (!res.ok) {
+        this._divergence = `Tick ${entry.tick}: ${entry.input.action.type} by ${entry.actorId} rejected (${res.reason})`;
+    }
+  }
+}
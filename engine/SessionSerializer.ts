@@ -0,0 +1,105 @@
+import { SessionState } from '../types';
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Save file envelope. `state` is the full authoritative SessionState
+ * (grid, entities incl. bot memory, logs).
+ */
+export interface SaveFile {
+  schemaVersion: number;
+  savedAt: number;
+  label: string;
+  state: SessionState;
+}
+
+export interface LoadResult {
+  ok: boolean;
+  file?: SaveFile;
+  reason?: string;
+}
+
+// Bump when SessionState changes shape and add a migration from the previous version.
+export const SAVE_SCHEMA_VERSION = 1;
+
+type JsonObject = Record<string, unknown>;
+type Migration = (data: JsonObject) => JsonObject;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Only the parts every later step relies on; the rest is trusted to the save format
+const isSessionState = (value: unknown): value is SessionState =>
+  isObject(value) && isObject(value.grid) && isObject(value.player) && Array.isArray(value.bots);
+
+/**
+ * Migration chain: MIGRATIONS[n] upgrades a version-n save to version n+1.
+ * Migrations receive plain parsed JSON and must not depend on current types.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v0: bare SessionState dumps (no envelope) from before seeded RNG
+  0: (data) => {
+    const state = { ...data };
+    if (state.seed === undefined) state.seed = SeededRandom.seedFromString(typeof state.sessionId === 'string' ? state.sessionId : '');
+    if (state.rngState === undefined) state.rngState = state.seed;
+    if (!state.telemetry) state.telemetry = [];
+    return { schemaVersion: 1, savedAt: 0, label: 'Legacy Session', state };
+  }
+};
+
+const detectVersion = (data: JsonObject): number =>
+  typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+
+export const serializeSession = (state: SessionState, label: string, savedAt: number): string => {
+  const file: SaveFile = {
+    schemaVersion: SAVE_SCHEMA_VERSION,
+    savedAt,
+    label,
+    // Visual effects are transient and tied to wall-clock time
+    state: { ...state, effects: [] }
+  };
+  return JSON.stringify(file);
+};
+
+/**
+ * Parses a save, runs it through the migration chain and sanity-checks the result.
+ */
+export const deserializeSession = (raw: string): LoadResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    return { ok: false, reason: 'Corrupted save data' };
+  }
+  if (!isObject(parsed)) return { ok: false, reason: 'Save is missing session data' };
+
+  let data = parsed;
+
+  let version = detectVersion(data);
+  if (version > SAVE_SCHEMA_VERSION) {
+    return { ok: false, reason: `Save is from a newer version (v${version})` };
+  }
+
+  while (version < SAVE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return { ok: false, reason: `No migration from v${version}` };
+    data = migrate(data);
+    const next = detectVersion(data);
+    if (next <= version) return { ok: false, reason: `Migration from v${version} did not advance` };
+    version = next;
+  }
+
+  const state = data.state;
+  if (!isSessionState(state)) {
+    return { ok: false, reason: 'Save is missing session data' };
+  }
+
+  return {
+    ok: true,
+    file: {
+      schemaVersion: version,
+      savedAt: typeof data.savedAt === 'number' ? data.savedAt : 0,
+      label: typeof data.label === 'string' ? data.label : '',
+      state: { ...state, effects: [] }
+    }
+  };
+};
@@ -0,0 +1,130 @@
+import { Entity, Hex, LogEntry, BotLogEntry, SessionState } from '../types';
+
+// Top-level session fields carried by a diff (grid, entities and logs have dedicated sections)
+const SESSION_FIELDS = [
+  'tick', 'currentTurn', 'gameStatus', 'lastBotActionTime', 'isPlayerGrowing', 'playerGrowthIntent',
+  'growingBotIds', 'rngState', 'winCondition', 'difficulty'
+] as const;
+
+type SessionField = typeof SESSION_FIELDS[number];
+
+export interface EntityDelta {
+  id: string;
+  changes: Partial<Entity>;
+}
+
+/**
+ * StateDiff - Compact description of one state transition (tick or action).
+ * Applying it to the `fromVersion` state with applyStateDiff reproduces the `toVersion` state
+ * (visual `effects` and `telemetry` excluded).
+ */
+export interface StateDiff {
+  fromVersion: number;
+  toVersion: number;
+  // Changed or newly revealed hexes, keyed by hex key
+  hexes: Record<string, Hex>;
+  entities: EntityDelta[];
+  // New entries, newest first (same order as the logs themselves)
+  messageLog: LogEntry[];
+  botActivityLog: BotLogEntry[];
+  // Post-transition lengths, so mirrors truncate logs exactly like the engine did
+  logLengths: { messageLog: number; botActivityLog: number };
+  session: Partial<Pick<SessionState, SessionField>>;
+}
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const diffEntity = (prev: Entity | undefined, next: Entity): EntityDelta | null => {
+  if (!prev) return { id: next.id, changes: { ...next } };
+  const changes: Partial<Entity> = {};
+  let changed = false;
+  const fields = new Set([...Object.keys(prev), ...Object.keys(next)]) as Set<keyof Entity>;
+  for (const field of fields) {
+    if (!isEqual(prev[field], next[field])) {
+      (changes as Record<string, unknown>)[field] = next[field];
+      changed = true;
+    }
+  }
+  return changed ? { id: next.id, changes } : null;
+};
+
+/**
+ * Log entries in `next` that were not in `prev`. Logs are newest-first and get
+ * truncated at the tail, so new entries are the ones ahead of prev's newest entry.
+ */
+const newLogEntries = <T>(prev: T[], next: T[]): T[] => {
+  if (prev.length === 0) return next.slice();
+  const anchor = next.findIndex(entry => isEqual(entry, prev[0]));
+  return anchor === -1 ? next.slice() : next.slice(0, anchor);
+};
+
+export const diffStates = (prev: SessionState, next: SessionState): StateDiff => {
+  // Copy-On-Write: untouched cells keep their object identity
+  const hexes: Record<string, Hex> = {};
+  if (prev.grid !== next.grid) {
+    for (const key in next.grid) {
+      if (next.grid[key] !== prev.grid[key]) hexes[key] = next.grid[key];
+    }
+  }
+
+  const prevEntities = new Map([prev.player, ...prev.bots].map(e => [e.id, e]));
+  const entities: EntityDelta[] = [];
+  for (const entity of [next.player, ...next.bots]) {
+    const delta = diffEntity(prevEntities.get(entity.id), entity);
+    if (delta) entities.push(delta);
+  }
+
+  const session: StateDiff['session'] = {};
+  for (const field of SESSION_FIELDS) {
+    if (!isEqual(prev[field], next[field])) {
+      (session as Record<string, unknown>)[field] = next[field];
+    }
+  }
+
+  return {
+    fromVersion: prev.stateVersion,
+    toVersion: next.stateVersion,
+    hexes,
+    entities,
+    messageLog: newLogEntries(prev.messageLog, next.messageLog),
+    botActivityLog: newLogEntries(prev.botActivityLog, next.botActivityLog),
+    logLengths: { messageLog: next.messageLog.length, botActivityLog: next.botActivityLog.length },
+    session
+  };
+};
+
+export const isEmptyDiff = (diff: StateDiff): boolean =>
+  Object.keys(diff.hexes).length === 0 &&
+  diff.entities.length === 0 &&
+  diff.messageLog.length === 0 &&
+  diff.botActivityLog.length === 0 &&
+  Object.keys(diff.session).length === 0;
+
+/**
+ * Returns a new state with the diff applied (e.g. on a remote client mirroring the engine).
+ */
+export const applyStateDiff = (state: SessionState, diff: StateDiff): SessionState => {
+  if (state.stateVersion !== diff.fromVersion) {
+    throw new Error(`Diff expects version ${diff.fromVersion}, state is at ${state.stateVersion}`);
+  }
+
+  const applyEntity = (entity: Entity): Entity => {
+    const delta = diff.entities.find(d => d.id === entity.id);
+    return delta ? { ...entity, ...delta.changes } : entity;
+  };
+
+  return {
+    ...state,
+    ...diff.session,
+    stateVersion: diff.toVersion,
+    grid: Object.keys(diff.hexes).length > 0 ? { ...state.grid, ...diff.hexes } : state.grid,
+    player: applyEntity(state.player),
+    bots: state.bots.map(applyEntity),
+    messageLog: [...diff.messageLog, ...state.messageLog].slice(0, diff.logLengths.messageLog),
+    botActivityLog: [...diff.botActivityLog, ...state.botActivityLog].slice(0, diff.logLengths.botActivityLog)
+  };
+};
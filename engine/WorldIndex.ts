@@ -2,6 +2,15 @@
 import { Hex, Entity, HexCoord } from '../types';
 import { getHexKey, getNeighbors, cubeDistance } from '../services/hexUtils';
 
+/**
+ * Receives hex changes so derived caches (e.g. pathfinding regions) can invalidate.
+ */
+export interface WorldIndexObserver {
+  onHexChanged(next: Hex, prev: Hex | undefined): void;
+  // The grid was swapped wholesale; anything derived from it is stale
+  onGridRebuilt(): void;
+}
+
 /**
  * WorldIndex optimizes queries that otherwise require iterating over the entire grid.
  * It is reconstructed or updated when the game state changes significantly.
@@ -12,8 +21,10 @@ export class WorldIndex {
   
   // Indices
   private occupiedHexes: Map<string, string> = new Map(); // HexKey -> EntityID
-  private structureLocations: Map<string, string[]> = new Map(); // Type -> HexIDs[]
+  private structureLocations: Map<string, Set<string>> = new Map(); // Type -> Set<HexIDs>
   private hexesByOwner: Map<string, Set<string>> = new Map(); // OwnerID -> Set<HexIDs>
+
+  private observers: Set<WorldIndexObserver> = new Set();
   
   constructor(grid: Record<string, Hex>, entities: Entity[]) {
     this.grid = grid;
@@ -29,7 +40,7 @@ export class WorldIndex {
    * systems from reading stale entity data (coins, moves, state) via the index.
    */
   public syncState(state: { grid: Record<string, Hex>; player: Entity; bots: Entity[] }) {
-      this.grid = state.grid;
+      this.syncGrid(state.grid);
       
       // Update Entity Map with NEW object references
       this.entities.clear();
@@ -44,8 +55,15 @@ export class WorldIndex {
       // However, we MUST rebuild if the grid structure changed drastically (rare).
   }
 
+  /**
+   * Points the index at `grid`. Under Copy-On-Write the committed grid is the same object the
+   * index last wrote, so this is free; a different object means writes bypassed setHex (or a
+   * failed action was discarded) and the hex indices are rebuilt.
+   */
   public syncGrid(grid: Record<string, Hex>) {
+      if (grid === this.grid) return;
       this.grid = grid;
+      this.buildHexIndices();
   }
 
   private initEntities(entities: Entity[]) {
@@ -71,18 +89,25 @@ export class WorldIndex {
     }
     
     // 2. Index Hexes
+    this.buildHexIndices();
+  }
+
+  private buildHexIndices() {
+    this.structureLocations.clear();
+    this.hexesByOwner.clear();
     for (const id in this.grid) {
-      const hex = this.grid[id];
-      this.indexHex(hex);
+      this.indexHex(this.grid[id]);
     }
+    this.observers.forEach(o => o.onGridRebuilt());
   }
 
   private indexHex(hex: Hex) {
       // Structures
       if (hex.structureType && hex.structureType !== 'NONE') {
-        const list = this.structureLocations.get(hex.structureType) || [];
-        list.push(hex.id);
-        this.structureLocations.set(hex.structureType, list);
+        if (!this.structureLocations.has(hex.structureType)) {
+            this.structureLocations.set(hex.structureType, new Set());
+        }
+        this.structureLocations.get(hex.structureType)?.add(hex.id);
       }
 
       // Ownership (inferred or explicit)
@@ -94,6 +119,55 @@ export class WorldIndex {
       }
   }
 
+  private unindexHex(hex: Hex) {
+      if (hex.structureType && hex.structureType !== 'NONE') {
+          this.structureLocations.get(hex.structureType)?.delete(hex.id);
+      }
+      if (hex.ownerId) {
+          const owned = this.hexesByOwner.get(hex.ownerId);
+          owned?.delete(hex.id);
+          if (owned && owned.size === 0) this.hexesByOwner.delete(hex.ownerId);
+      }
+  }
+
+  // --- Grid Mutation ---
+
+  /**
+   * The only sanctioned way for systems to change hexes.
+   * Applies Copy-On-Write to `state.grid` and keeps ownership/structure indices in sync.
+   */
+  public setHex(state: { grid: Record<string, Hex> }, hex: Hex) {
+      this.setHexes(state, [hex]);
+  }
+
+  /**
+   * Batch variant of setHex (single grid copy).
+   */
+  public setHexes(state: { grid: Record<string, Hex> }, hexes: Hex[]) {
+      if (hexes.length === 0) return;
+      this.syncGrid(state.grid);
+
+      const next = { ...state.grid };
+      for (const hex of hexes) {
+          const prev = next[hex.id];
+          if (prev) this.unindexHex(prev);
+          next[hex.id] = hex;
+          this.indexHex(hex);
+          this.observers.forEach(o => o.onHexChanged(hex, prev));
+      }
+
+      state.grid = next;
+      this.grid = next;
+  }
+
+  /**
+   * Subscribes to hex changes made through setHex and to full rebuilds. Returns the unsubscribe.
+   */
+  public addObserver(observer: WorldIndexObserver): () => void {
+      this.observers.add(observer);
+      return () => { this.observers.delete(observer); };
+  }
+
   // --- Incremental Updates ---
 
   public updateEntityPosition(entityId: string, oldQ: number, oldR: number, newQ: number, newR: number) {
@@ -125,6 +199,13 @@ export class WorldIndex {
       return id ? this.entities.get(id) : undefined;
   }
 
+  /**
+   * Snapshot of the occupancy index (HexKey -> EntityID), for consistency checks.
+   */
+  public getOccupancy(): Map<string, string> {
+    return new Map(this.occupiedHexes);
+  }
+
   public getOccupiedHexesList(): HexCoord[] {
     const coords: HexCoord[] = [];
     for (const ent of this.entities.values()) {
@@ -133,6 +214,42 @@ export class WorldIndex {
     return coords;
   }
 
+  /**
+   * Hexes owned by an entity, sorted by id so results don't depend on mutation order.
+   */
+  public getHexesOwnedBy(ownerId: string): Hex[] {
+      return this.resolveHexes(this.hexesByOwner.get(ownerId));
+  }
+
+  public getOwnedHexCount(ownerId: string): number {
+      return this.hexesByOwner.get(ownerId)?.size || 0;
+  }
+
+  public getStructures(type: NonNullable<Hex['structureType']>): Hex[] {
+      return this.resolveHexes(this.structureLocations.get(type));
+  }
+
+  /**
+   * Owned hexes with at least one neighbor outside the territory (unowned, foreign or unexplored).
+   */
+  public getTerritoryBorder(ownerId: string): Hex[] {
+      const owned = this.hexesByOwner.get(ownerId);
+      if (!owned) return [];
+      return this.getHexesOwnedBy(ownerId).filter(hex =>
+          getNeighbors(hex.q, hex.r).some(n => !owned.has(getHexKey(n.q, n.r)))
+      );
+  }
+
+  private resolveHexes(ids: Set<string> | undefined): Hex[] {
+      if (!ids) return [];
+      const hexes: Hex[] = [];
+      for (const id of [...ids].sort()) {
+          const hex = this.grid[id];
+          if (hex) hexes.push(hex);
+      }
+      return hexes;
+  }
+
   public getValidNeighbors(q: number, r: number): Hex[] {
     const neighbors = getNeighbors(q, r);
     const valid: Hex[] = [];
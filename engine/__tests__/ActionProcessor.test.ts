@@ -1,6 +1,9 @@
-
 import { describe, it, expect } from 'vitest';
 import { ActionProcessor } from '../ActionProcessor';
+import { WorldIndex } from '../WorldIndex';
+import { SessionState, Hex } from '../../types';
+import { getHexKey } from '../../services/hexUtils';
+import { makeSession } from './fixtures';
 
 describe('ActionProcessor', () => {
   it('should be defined', () => {
@@ -8,3 +11,45 @@ describe('ActionProcessor', () => {
     expect(processor).toBeDefined();
   });
 });
+
+describe('ActionProcessor MOVE validation', () => {
+  const processor = new ActionProcessor();
+
+  const setup = (patch: Record<string, Partial<Hex>> = {}) => {
+    const state: SessionState = makeSession(1);
+    for (const key in patch) state.grid[key] = { ...state.grid[key], ...patch[key] };
+    state.player.moves = 10;
+    const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+    const validate = (path: { q: number; r: number }[]) =>
+      processor.validateAction(state, index, state.player.id, { type: 'MOVE', path });
+    return { state, validate };
+  };
+
+  it('accepts a contiguous legal path', () => {
+    const { validate } = setup();
+    expect(validate([{ q: 1, r: 0 }, { q: 1, r: 1 }])).toEqual({ ok: true });
+  });
+
+  it('rejects teleporting and gaps', () => {
+    const { validate } = setup();
+    expect(validate([{ q: 3, r: 0 }]).reason).toMatch(/Step 1 \(3,0\) is not adjacent to \(0,0\)/);
+    expect(validate([{ q: 1, r: 0 }, { q: 3, r: -1 }]).reason).toMatch(/Step 2/);
+    expect(validate([{ q: 0, r: 0 }]).ok).toBe(false);
+  });
+
+  it('rejects VOID and over-rank hexes with a precise reason', () => {
+    const { validate } = setup({
+      [getHexKey(1, 0)]: { structureType: 'VOID' },
+      [getHexKey(0, 1)]: { maxLevel: 1 }
+    });
+
+    expect(validate([{ q: 1, r: 0 }]).reason).toMatch(/VOID/);
+    expect(validate([{ q: 0, r: 1 }]).reason).toMatch(/L1, above rank L0/);
+  });
+
+  it('rejects jumps of more than one level', () => {
+    const { state, validate } = setup({ [getHexKey(0, 1)]: { maxLevel: 2 } });
+    state.player.playerLevel = 3;
+    expect(validate([{ q: 0, r: 1 }]).reason).toMatch(/jumps L0 -> L2/);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { ActionProcessor } from '../ActionProcessor';
+import { GrowthSystem } from '../systems/GrowthSystem';
+import { GameEngine } from '../GameEngine';
+import { SimulatedClock } from '../Clock';
+import { WorldIndex } from '../WorldIndex';
+import { GAME_CONFIG } from '../../rules/config';
+import { getHexKey, getNeighbors } from '../../services/hexUtils';
+import { checkGrowthCondition } from '../../rules/growth';
+import { getCaptureTicks } from '../../rules/capture';
+import { buildStructure } from '../../rules/structures';
+import { EntityState, GameEvent, SessionState } from '../../types';
+import { makeSession } from './fixtures';
+
+const CAPTURE = GAME_CONFIG.CAPTURE;
+const HOME = getHexKey(0, 0);
+
+// The player stands on (0,0), an L2 sector of bot-1 (which waits at (0,-2), out of reach)
+const setup = (tokens = 2) => {
+  const state: SessionState = makeSession(1);
+  state.grid[HOME] = { ...state.grid[HOME], ownerId: 'bot-1', maxLevel: 2, currentLevel: 2 };
+  state.player.attackTokens = tokens;
+  const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+  return { state, index };
+};
+
+const capture = (state: SessionState, index: WorldIndex) =>
+  new ActionProcessor().applyAction(state, index, state.player.id, {
+    type: 'UPGRADE', coord: { q: 0, r: 0 }, intent: 'CAPTURE'
+  });
+
+const runTicks = (state: SessionState, index: WorldIndex, ticks: number): GameEvent[] => {
+  const system = new GrowthSystem();
+  const events: GameEvent[] = [];
+  for (let i = 0; i < ticks; i++) system.update(state, index, events, i);
+  return events;
+};
+
+describe('Hostile sector capture', () => {
+  it('validates the target and the attack tokens', () => {
+    const { state, index } = setup(0);
+    expect(capture(state, index)).toEqual({ ok: false, reason: 'NO ATTACK TOKENS' });
+
+    state.grid[HOME] = { ...state.grid[HOME], ownerId: state.player.id };
+    index.syncGrid({ ...state.grid });
+    state.player.attackTokens = 1;
+    expect(capture(state, index)).toEqual({ ok: false, reason: 'NOT A HOSTILE SECTOR' });
+  });
+
+  it('refuses to grow on a hostile sector', () => {
+    const { state } = setup();
+    const check = checkGrowthCondition(state.grid[HOME], state.player, getNeighbors(0, 0), state.grid, [], 3);
+    expect(check).toMatchObject({ canGrow: false, reason: 'HOSTILE SECTOR' });
+  });
+
+  it('drains one level per token, then flips the sector at L1', () => {
+    const { state, index } = setup();
+    expect(capture(state, index)).toEqual({ ok: true });
+    const ticks = getCaptureTicks(state.grid[HOME], state.grid);
+
+    runTicks(state, index, ticks - 1);
+    expect(state.grid[HOME]).toMatchObject({ maxLevel: 2, attackPoint: ticks - 1 });
+
+    const drained = runTicks(state, index, 1);
+    expect(drained.map(e => e.type)).toContain('SECTOR_DRAINED');
+    expect(state.grid[HOME]).toMatchObject({ ownerId: 'bot-1', maxLevel: 1, attackPoint: 0 });
+    expect(state.player.attackTokens).toBe(1);
+
+    const flipped = runTicks(state, index, ticks);
+    expect(flipped.map(e => e.type)).toEqual(expect.arrayContaining(['SECTOR_ACQUIRED', 'SECTOR_CAPTURED']));
+    expect(flipped.find(e => e.type === 'SECTOR_CAPTURED')?.data).toMatchObject({ previousOwnerId: 'bot-1' });
+    expect(state.grid[HOME]).toMatchObject({ ownerId: state.player.id, maxLevel: 1 });
+    expect(state.player.attackTokens).toBe(0);
+    expect(state.player.movementQueue).toHaveLength(0);
+    expect(state.player.state).toBe(EntityState.IDLE);
+  });
+
+  it('is broken off when the owner stands next to the sector', () => {
+    const { state, index } = setup();
+    capture(state, index);
+    index.updateEntityPosition('bot-1', 0, -2, 0, -1);
+    state.bots[0].r = -1;
+
+    const events = runTicks(state, index, 1);
+    expect(events.map(e => e.type)).toEqual(['ACTION_DENIED']);
+    expect(state.messageLog[0].text).toBe('Capture Failed: SECTOR DEFENDED');
+    expect(state.player.movementQueue).toHaveLength(0);
+    expect(state.player.state).toBe(EntityState.IDLE);
+    expect(state.grid[HOME]).toMatchObject({ ownerId: 'bot-1', maxLevel: 2 });
+    expect(state.player.attackTokens).toBe(2);
+  });
+
+  it('leaves neither attacker nor defender stuck in a full engine run', () => {
+    const { state } = setup();
+    state.bots[0].r = -1;
+    const engine = new GameEngine(state, { clock: new SimulatedClock() });
+    expect(engine.applyAction(state.player.id, { type: 'UPGRADE', coord: { q: 0, r: 0 }, intent: 'CAPTURE' })).toMatchObject({ ok: true });
+
+    for (let i = 0; i < 200; i++) engine.processTick();
+
+    const player = engine.state!.player;
+    const owner = engine.state!.bots.find(b => b.id === 'bot-1')!;
+    expect(player.movementQueue.some(c => c.intent === 'CAPTURE')).toBe(false);
+    expect(player.state).toBe(EntityState.IDLE);
+    expect(owner.memory?.currentGoal?.type).not.toBe('DEFEND');
+    engine.destroy();
+  });
+
+  it('takes longer against structures', () => {
+    const { state } = setup();
+    const plain = getCaptureTicks(state.grid[HOME], state.grid);
+    const mined = buildStructure(state.grid[HOME], 'MINE');
+    expect(getCaptureTicks(mined, state.grid)).toBe(plain + CAPTURE.drainTicksPerLevel * CAPTURE.structureResist);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { DecaySystem } from '../systems/DecaySystem';
+import { WorldIndex } from '../WorldIndex';
+import { GAME_CONFIG } from '../../rules/config';
+import { getHexKey } from '../../services/hexUtils';
+import { getDecayRate } from '../../rules/decay';
+import { buildStructure } from '../../rules/structures';
+import { GameEvent, SessionState } from '../../types';
+import { makeHex, makeSession } from './fixtures';
+
+const DECAY = GAME_CONFIG.DECAY;
+const HOME = getHexKey(0, 0);
+const OUTPOST = getHexKey(6, 0);
+
+// The player stands on its L3 home and owns an L3 outpost six hexes away
+const setup = () => {
+  const state: SessionState = makeSession(1);
+  state.grid[HOME] = { ...state.grid[HOME], ownerId: state.player.id, maxLevel: 3, currentLevel: 3 };
+  state.grid[OUTPOST] = { ...makeHex(6, 0), ownerId: state.player.id, maxLevel: 3, currentLevel: 3 };
+  const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+  return { state, index };
+};
+
+const runTicks = (state: SessionState, index: WorldIndex, ticks: number): GameEvent[] => {
+  const system = new DecaySystem();
+  const events: GameEvent[] = [];
+  for (let i = 0; i < ticks; i++) {
+    system.update(state, index, events, i);
+    state.tick++;
+  }
+  return events;
+};
+
+const ticksPerLevel = (state: SessionState, key: string) =>
+  Math.ceil(DECAY.pointsPerLevel / getDecayRate(state.grid[key], state.player, state.grid));
+
+describe('DecaySystem', () => {
+  it('erodes unattended sectors one level at a time, down to L1', () => {
+    const { state, index } = setup();
+    expect(getDecayRate(state.grid[HOME], state.player, state.grid)).toBe(0);
+
+    const ticks = ticksPerLevel(state, OUTPOST);
+    runTicks(state, index, 1);
+    const decaying = state.grid[OUTPOST];
+    runTicks(state, index, ticks - 2);
+    expect(state.grid[OUTPOST]).toBe(decaying);
+    expect(state.grid[OUTPOST].currentLevel).toBe(3);
+
+    const events = runTicks(state, index, 1);
+    expect(events.map(e => e.type)).toEqual(['SECTOR_DECAYED']);
+    expect(events[0].data).toMatchObject({ q: 6, r: 0, level: 2 });
+    expect(state.grid[OUTPOST]).toMatchObject({ currentLevel: 2, maxLevel: 3, decayPoint: 0, ownerId: state.player.id });
+    expect(state.grid[HOME].currentLevel).toBe(3);
+
+    runTicks(state, index, ticks * 10);
+    expect(state.grid[OUTPOST]).toMatchObject({ currentLevel: DECAY.minLevel - 1, maxLevel: 3 });
+  });
+
+  it('decays faster with level and distance, slower next to a capital', () => {
+    const { state } = setup();
+    const outpost = state.grid[OUTPOST];
+    const rate = getDecayRate(outpost, state.player, state.grid);
+
+    expect(getDecayRate({ ...outpost, currentLevel: 2 }, state.player, state.grid)).toBeLessThan(rate);
+    expect(getDecayRate(outpost, { ...state.player, q: -2 }, state.grid)).toBeGreaterThan(rate);
+
+    const capitalKey = getHexKey(5, 0);
+    state.grid[capitalKey] = buildStructure({ ...makeHex(5, 0), ownerId: state.player.id, maxLevel: 2 }, 'CAPITAL');
+    expect(getDecayRate(outpost, state.player, state.grid)).toBeCloseTo(rate / (1 + GAME_CONFIG.STRUCTURES.CAPITAL.defenseBonus));
+  });
+
+  it('bills upkeep per owned level and speeds up decay while in arrears', () => {
+    const { state, index } = setup();
+    const rate = getDecayRate(state.grid[OUTPOST], state.player, state.grid);
+    const upkeepPerLevel = DECAY.upkeepPerLevel;
+    DECAY.upkeepPerLevel = 2;
+    try {
+      state.player.coins = 20;
+      runTicks(state, index, DECAY.upkeepIntervalTicks);
+      expect(state.player.coins).toBe(20 - 6 * 2);
+      expect(state.player.inArrears).toBe(false);
+
+      const events = runTicks(state, index, DECAY.upkeepIntervalTicks);
+      expect(state.player.coins).toBe(0);
+      expect(state.player.inArrears).toBe(true);
+      expect(events.find(e => e.type === 'UPKEEP_UNPAID')?.data).toEqual({ owed: 12, paid: 8 });
+      expect(getDecayRate(state.grid[OUTPOST], state.player, state.grid)).toBeCloseTo(rate * DECAY.arrearsMultiplier);
+    } finally {
+      DECAY.upkeepPerLevel = upkeepPerLevel;
+    }
+  });
+});
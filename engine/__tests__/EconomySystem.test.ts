@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { EconomySystem } from '../systems/EconomySystem';
+import { WorldIndex } from '../WorldIndex';
+import { GAME_CONFIG, getLevelConfig } from '../../rules/config';
+import { getHexKey } from '../../services/hexUtils';
+import { getIncomeEfficiency, getPayout } from '../../rules/economy';
+import { GameEvent, Hex, SessionState } from '../../types';
+import { makeHex, makeSession } from './fixtures';
+
+const ECONOMY = GAME_CONFIG.ECONOMY;
+
+// The player owns `count` L`level` sectors in a row starting at its home (0,0)
+const setup = (count: number, level: number) => {
+  const state: SessionState = makeSession(1);
+  for (let q = 0; q < count; q++) {
+    state.grid[getHexKey(q, 0)] = { ...makeHex(q, 0), ownerId: state.player.id, maxLevel: level, currentLevel: level };
+  }
+  state.player.coins = 0;
+  state.player.totalCoinsEarned = 0;
+  const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+  return { state, index };
+};
+
+const runTicks = (state: SessionState, index: WorldIndex, ticks: number): GameEvent[] => {
+  const system = new EconomySystem();
+  const events: GameEvent[] = [];
+  for (let i = 0; i < ticks; i++) system.update(state, index, events, i);
+  return events;
+};
+
+describe('EconomySystem', () => {
+  it('pays owned sectors by level once per payout period', () => {
+    const { state, index } = setup(4, 3);
+    const expected = 4 * getLevelConfig(3).income * ECONOMY.yieldShare;
+
+    runTicks(state, index, ECONOMY.payoutIntervalTicks - 1);
+    expect(state.player.coins).toBe(0);
+
+    state.tick = ECONOMY.payoutIntervalTicks;
+    const events = runTicks(state, index, 1);
+    const payout = events.find(e => e.type === 'INCOME_PAYOUT' && e.entityId === state.player.id);
+    expect(payout?.data).toEqual({ amount: Math.floor(expected), sectors: 4 });
+    expect(state.player.coins).toBe(Math.floor(expected));
+    expect(state.player.totalCoinsEarned).toBe(Math.floor(expected));
+    expect(state.player.ledger?.entries[0]).toEqual({ resource: 'COINS', amount: Math.floor(expected), reason: 'TERRITORY', tick: ECONOMY.payoutIntervalTicks });
+  });
+
+  it('carries fractions of a coin over to later payouts', () => {
+    const { state, index } = setup(1, 1);
+    const perPayout = getLevelConfig(1).income * ECONOMY.yieldShare;
+    expect(perPayout).toBeLessThan(1);
+
+    const payouts = Math.ceil(1 / perPayout);
+    const events = runTicks(state, index, ECONOMY.payoutIntervalTicks * payouts);
+    expect(events.filter(e => e.type === 'INCOME_PAYOUT' && e.entityId === state.player.id)).toHaveLength(1);
+    expect(state.player.coins).toBe(1);
+    expect(state.player.incomeCarry).toBeCloseTo(payouts * perPayout - 1);
+  });
+
+  it('yields less per sector beyond fullYieldSectors', () => {
+    const sectors = (count: number): Hex[] => Array.from({ length: count }, (_, q) => ({ ...makeHex(q, 0), currentLevel: 2, maxLevel: 2 }));
+    const small = ECONOMY.fullYieldSectors;
+    const large = ECONOMY.fullYieldSectors * 4;
+
+    expect(getIncomeEfficiency(small)).toBe(1);
+    expect(getIncomeEfficiency(large)).toBeLessThan(1);
+    expect(getPayout(sectors(large))).toBeGreaterThan(getPayout(sectors(small)));
+    expect(getPayout(sectors(large)) / large).toBeLessThan(getPayout(sectors(small)) / small);
+  });
+});
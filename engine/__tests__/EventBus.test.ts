@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventBus } from '../EventBus';
+import { GameEventFactory } from '../events';
+import { GameEngine } from '../GameEngine';
+import { SimulatedClock } from '../Clock';
+import { GameEvent } from '../../types';
+import { makeSession } from './fixtures';
+
+describe('EventBus', () => {
+  it('delivers events only to listeners of that type', () => {
+    const bus = new EventBus();
+    const collapses: { q: number; r: number }[] = [];
+    const levelUps: string[] = [];
+
+    bus.on('HEX_COLLAPSE', e => collapses.push(e.data));
+    bus.on('LEVEL_UP', e => levelUps.push(e.entityId!));
+
+    bus.emit([
+      GameEventFactory.create('HEX_COLLAPSE', 1, undefined, 'p1', { q: 2, r: -1 }),
+      GameEventFactory.create('LEVEL_UP', 1, 'Rank up', 'bot-1')
+    ], makeSession(1));
+
+    expect(collapses).toEqual([{ q: 2, r: -1 }]);
+    expect(levelUps).toEqual(['bot-1']);
+  });
+
+  it('unsubscribes and isolates failing listeners', () => {
+    const bus = new EventBus();
+    const seen: GameEvent[] = [];
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const off = bus.on('VICTORY', e => seen.push(e));
+    bus.on('VICTORY', () => { throw new Error('boom'); });
+    bus.onAny(e => seen.push(e));
+
+    const victory = GameEventFactory.create('VICTORY', 5, 'Won');
+    bus.emit([victory], makeSession(1));
+    off();
+    bus.emit([victory], makeSession(1));
+
+    expect(seen).toHaveLength(3);
+    expect(errorSpy).toHaveBeenCalledTimes(2);
+    errorSpy.mockRestore();
+  });
+});
+
+describe('GameEngine events', () => {
+  it('emits tick events to subscribers with the committed state', () => {
+    const engine = new GameEngine(makeSession(3), { clock: new SimulatedClock() });
+    const received: { type: string; version: number }[] = [];
+    engine.events.onAny((e, state) => received.push({ type: e.type, version: state.stateVersion }));
+
+    const emitted: GameEvent[] = [];
+    for (let i = 0; i < 50; i++) emitted.push(...engine.processTick().events);
+
+    expect(received.map(r => r.type)).toEqual(emitted.map(e => e.type));
+    received.forEach(r => expect(r.version).toBeGreaterThan(0));
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { runHeadlessMatch, HeadlessMatchOptions } from '../HeadlessRunner';
+
+const options: HeadlessMatchOptions = {
+  difficulty: 'EASY',
+  botCount: 2,
+  targetLevel: 3,
+  targetCoins: 100,
+  seed: 11,
+  maxTicks: 600,
+  playerPolicy: 'BOT'
+};
+
+describe('runHeadlessMatch', () => {
+  it('is reproducible for the same options', () => {
+    expect(runHeadlessMatch(options)).toEqual(runHeadlessMatch(options));
+  });
+
+  it('reports every entity and stops at the tick limit', () => {
+    const summary = runHeadlessMatch({ ...options, playerPolicy: 'IDLE', targetLevel: 99, targetCoins: 999999 });
+
+    expect(summary.ticks).toBe(600);
+    expect(summary.winner).toBeNull();
+    expect(summary.entities.map(e => e.id)).toEqual(['player-1', 'bot-1', 'bot-2']);
+  });
+
+  it('runs without bots when botCount is 0', () => {
+    const summary = runHeadlessMatch({ ...options, botCount: 0, maxTicks: 100 });
+    expect(summary.entities.map(e => e.id)).toEqual(['player-1']);
+  });
+
+  it('reports a ledger that accounts for every coin earned', () => {
+    const summary = runHeadlessMatch(options);
+
+    for (const entity of summary.entities) {
+      expect(entity.ledger.coins.earned).toBe(entity.totalCoinsEarned);
+    }
+    expect(summary.entities.some(e => e.ledger.coins.lines.length > 0)).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getHexKey, cubeDistance, hexToPixel, pixelToHex, hexRound, getRing, getSpiral, getRangeIntersection,
+  getHexLine, hasLineOfSight, rotateHex, reflectHex, floodFill, getConnectedComponents
+} from '../../services/hexUtils';
+import { Hex, HexCoord } from '../../types';
+import { makeHex } from './fixtures';
+
+const keys = (coords: HexCoord[]) => coords.map(c => getHexKey(c.q, c.r));
+const origin = { q: 0, r: 0 };
+
+describe('hex geometry toolkit', () => {
+  it('builds rings and spirals', () => {
+    expect(getRing(origin, 0)).toEqual([origin]);
+
+    const ring = getRing({ q: 2, r: -1 }, 3);
+    expect(ring).toHaveLength(18);
+    expect(new Set(keys(ring)).size).toBe(18);
+    expect(ring.every(h => cubeDistance(h, { q: 2, r: -1 }) === 3)).toBe(true);
+
+    const spiral = getSpiral(origin, 2);
+    expect(spiral).toHaveLength(19);
+    expect(spiral[0]).toEqual(origin);
+    expect(spiral.map(h => cubeDistance(h, origin))).toEqual([...spiral.map(h => cubeDistance(h, origin))].sort());
+  });
+
+  it('intersects ranges', () => {
+    const a = { q: 0, r: 0 };
+    const b = { q: 3, r: 0 };
+    const overlap = getRangeIntersection(a, 2, b, 2);
+
+    const expected = getSpiral(a, 2).filter(h => cubeDistance(h, b) <= 2);
+    expect(keys(overlap).sort()).toEqual(keys(expected).sort());
+    expect(getRangeIntersection(a, 1, { q: 5, r: 0 }, 1)).toEqual([]);
+  });
+
+  it('draws lines with both ends and one hex per step', () => {
+    const line = getHexLine({ q: 0, r: 0 }, { q: 4, r: -2 });
+    expect(line).toHaveLength(5);
+    expect(line[0]).toEqual({ q: 0, r: 0 });
+    expect(line[4]).toEqual({ q: 4, r: -2 });
+    for (let i = 1; i < line.length; i++) expect(cubeDistance(line[i - 1], line[i])).toBe(1);
+  });
+
+  it('occludes line of sight with higher terrain', () => {
+    const grid: Record<string, Hex> = {};
+    for (let q = 0; q <= 4; q++) grid[getHexKey(q, 0)] = makeHex(q, 0);
+    const from = { q: 0, r: 0 };
+    const to = { q: 4, r: 0 };
+
+    expect(hasLineOfSight(from, to, grid)).toBe(true);
+
+    grid[getHexKey(2, 0)] = { ...grid[getHexKey(2, 0)], maxLevel: 2 };
+    expect(hasLineOfSight(from, to, grid)).toBe(false);
+
+    // Standing high enough sees over the ridge
+    grid[getHexKey(0, 0)] = { ...grid[getHexKey(0, 0)], maxLevel: 4 };
+    expect(hasLineOfSight(from, to, grid)).toBe(true);
+
+    // Holes never block
+    grid[getHexKey(0, 0)] = makeHex(0, 0);
+    grid[getHexKey(2, 0)] = { ...grid[getHexKey(2, 0)], structureType: 'VOID' };
+    expect(hasLineOfSight(from, to, grid)).toBe(true);
+  });
+
+  it('rotates in step with hexToPixel and reflects across axes', () => {
+    const hex = { q: 2, r: -1 };
+    const rotated = rotateHex(hex, 1);
+    const expected = hexToPixel(hex.q, hex.r, 60);
+    const actual = hexToPixel(rotated.q, rotated.r);
+    expect(actual.x).toBeCloseTo(expected.x);
+    expect(actual.y).toBeCloseTo(expected.y);
+
+    expect(rotateHex(hex, 6)).toEqual(hex);
+    expect(rotateHex(hex, -1)).toEqual(rotateHex(hex, 5));
+    expect(rotateHex({ q: 3, r: 0 }, 2, { q: 2, r: 0 })).toEqual({ q: 1, r: 1 });
+
+    expect(reflectHex({ q: 2, r: 0 }, 'q')).toEqual({ q: 2, r: -2 });
+    expect(reflectHex(hex, 'r')).toEqual({ q: -1, r: -1 });
+    expect(reflectHex(reflectHex(hex, 's'), 's')).toEqual(hex);
+  });
+
+  it('picks the hex under a pixel for any camera rotation', () => {
+    expect(hexRound(0.4, 0.4)).toEqual({ q: 0, r: 1 });
+
+    for (const rotation of [0, 30, 135, 270]) {
+      for (const hex of getSpiral(origin, 3)) {
+        const { x, y } = hexToPixel(hex.q, hex.r, rotation);
+        expect(pixelToHex(x + 3, y - 2, rotation)).toEqual(hex);
+      }
+    }
+  });
+
+  it('flood fills and splits connected components', () => {
+    const island = new Set([getHexKey(0, 0), getHexKey(1, 0), getHexKey(1, -1)]);
+    expect(keys(floodFill(origin, c => island.has(getHexKey(c.q, c.r)))).sort()).toEqual([...island].sort());
+    expect(floodFill(origin, () => true, 10)).toHaveLength(10);
+
+    const components = getConnectedComponents([
+      { q: 0, r: 0 }, { q: 5, r: 5 }, { q: 1, r: 0 }, { q: 5, r: 6 }, { q: 9, r: 0 }
+    ]);
+    expect(components.map(c => keys(c).sort())).toEqual([
+      ['0,0', '1,0'], ['5,5', '5,6'], ['9,0']
+    ]);
+  });
+});
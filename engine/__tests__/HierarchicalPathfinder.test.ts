@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { HierarchicalPathfinder } from '../HierarchicalPathfinder';
+import { WorldIndex } from '../WorldIndex';
+import { checkMovePath } from '../../rules/movement';
+import { SAFETY_CONFIG } from '../../rules/config';
+import { findPath, getHexKey } from '../../services/hexUtils';
+import { Hex, HexCoord } from '../../types';
+import { makeHex } from './fixtures';
+
+const LENGTH = 40;
+
+// Two parallel lanes (r=0 and r=2) joined at both ends through r=1
+const makeLanes = (): { grid: Record<string, Hex> } => {
+  const grid: Record<string, Hex> = {};
+  const add = (q: number, r: number) => { grid[getHexKey(q, r)] = makeHex(q, r); };
+  for (let q = 0; q <= LENGTH; q++) {
+    add(q, 0);
+    add(q, 2);
+  }
+  add(0, 1);
+  add(LENGTH, 1);
+  return { grid };
+};
+
+const keys = (path: HexCoord[]) => path.map(p => getHexKey(p.q, p.r));
+
+describe('HierarchicalPathfinder', () => {
+  it('plans routes findPath gives up on, as legal MOVE segments', () => {
+    const { grid } = makeLanes();
+    const start = { q: 0, r: 0 };
+    const end = { q: LENGTH, r: 0 };
+    expect(findPath(start, end, grid, 0, [])).toBeNull();
+
+    const route = new HierarchicalPathfinder().findRoute(start, end, grid, 0, [])!;
+    expect(route.path).toHaveLength(LENGTH);
+    expect(route.segments.flat()).toEqual(route.path);
+
+    let from: HexCoord = start;
+    for (const segment of route.segments) {
+      expect(segment.length).toBeLessThanOrEqual(SAFETY_CONFIG.MAX_PATH_LENGTH);
+      expect(checkMovePath(from, segment, grid, 0)).toEqual({ ok: true });
+      from = segment[segment.length - 1];
+    }
+  });
+
+  it('routes around obstacles and refuses unexplored or occupied targets', () => {
+    const { grid } = makeLanes();
+    const pathfinder = new HierarchicalPathfinder();
+    const route = pathfinder.findRoute({ q: 0, r: 0 }, { q: LENGTH, r: 0 }, grid, 0, [{ q: 10, r: 0 }])!;
+
+    expect(keys(route.path)).not.toContain(getHexKey(10, 0));
+    expect(keys(route.path)).toContain(getHexKey(10, 2));
+    expect(pathfinder.findRoute({ q: 0, r: 0 }, { q: LENGTH + 5, r: 0 }, grid, 0, [])).toBeNull();
+    expect(pathfinder.findRoute({ q: 0, r: 0 }, { q: 5, r: 0 }, grid, 0, [{ q: 5, r: 0 }])).toBeNull();
+  });
+
+  it('invalidates cached regions when a hex collapses or changes level', () => {
+    const state = makeLanes();
+    const index = new WorldIndex(state.grid, []);
+    const pathfinder = new HierarchicalPathfinder();
+    index.addObserver(pathfinder);
+
+    const route = () => pathfinder.findRoute({ q: 0, r: 0 }, { q: LENGTH, r: 0 }, state.grid, 0, []);
+    expect(keys(route()!.path)).toContain(getHexKey(20, 0));
+
+    index.setHex(state, { ...state.grid[getHexKey(20, 0)], structureType: 'VOID' });
+    expect(keys(route()!.path)).not.toContain(getHexKey(20, 0));
+
+    index.setHex(state, { ...state.grid[getHexKey(20, 2)], maxLevel: 2 });
+    expect(route()).toBeNull();
+  });
+
+  it('keeps its caches on changes that do not affect connectivity', () => {
+    const state = makeLanes();
+    const index = new WorldIndex(state.grid, []);
+    const pathfinder = new HierarchicalPathfinder();
+    index.addObserver(pathfinder);
+
+    pathfinder.findRoute({ q: 0, r: 0 }, { q: LENGTH, r: 0 }, state.grid, 0, []);
+    const cached = pathfinder.getCachedChunkCount(0);
+    expect(cached).toBeGreaterThan(0);
+
+    index.setHex(state, { ...state.grid[getHexKey(20, 0)], ownerId: 'player-1' });
+    expect(pathfinder.getCachedChunkCount(0)).toBe(cached);
+
+    index.syncGrid({ ...state.grid });
+    expect(pathfinder.getCachedChunkCount(0)).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { findInvariantViolations, InvariantReport } from '../InvariantChecker';
+import { deserializeSession } from '../SessionSerializer';
+import { GameEngine } from '../GameEngine';
+import { SimulatedClock } from '../Clock';
+import { WorldIndex } from '../WorldIndex';
+import { CORE_SYSTEMS } from '../systems/SystemPipeline';
+import { getHexKey } from '../../services/hexUtils';
+import { makeSession } from './fixtures';
+
+describe('findInvariantViolations', () => {
+  it('accepts a fresh session', () => {
+    const state = makeSession(1);
+    expect(findInvariantViolations(state, new WorldIndex(state.grid, [state.player, ...state.bots]))).toEqual([]);
+  });
+
+  it('flags each broken rule', () => {
+    const state = makeSession(1);
+    const a = getHexKey(1, 0);
+    const b = getHexKey(0, 1);
+    const c = getHexKey(-1, 0);
+    state.grid = {
+      ...state.grid,
+      [a]: { ...state.grid[a], maxLevel: 2, currentLevel: 3, durability: 2 },
+      [b]: { ...state.grid[b], ownerId: 'ghost' },
+      [c]: { ...state.grid[c], structureType: 'VOID', maxLevel: 1, currentLevel: 1 }
+    };
+    state.bots[0] = { ...state.bots[0], q: 0, r: 0 };
+    state.player.movementQueue = [{ q: 3, r: 0 }];
+
+    const rules = findInvariantViolations(state).map(v => v.rule).sort();
+    expect(rules).toEqual([
+      'DURABILITY_NOT_L1', 'ENTITY_OVERLAP', 'LEVEL_ABOVE_MAX', 'OWNER_MISSING', 'QUEUE_NOT_CONTIGUOUS', 'VOID_HAS_LEVEL'
+    ]);
+  });
+
+  it('detects a stale occupancy index', () => {
+    const state = makeSession(1);
+    const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+    state.player.q = 1; // moved without index.updateEntityPosition
+
+    const rules = findInvariantViolations(state, index).map(v => v.rule);
+    expect(rules).toContain('INDEX_OCCUPANCY_DESYNC');
+  });
+});
+
+describe('InvariantChecker in GameEngine', () => {
+  it('reports nothing during a normal match', () => {
+    const reports: InvariantReport[] = [];
+    const engine = new GameEngine(makeSession(9), { clock: new SimulatedClock(), invariants: r => reports.push(r) });
+    for (let i = 0; i < 300; i++) engine.processTick();
+    expect(reports.map(r => `${r.source}: ${r.violations[0].message}`)).toEqual([]);
+  });
+
+  it('attributes a violation to the system that caused it', () => {
+    const reports: InvariantReport[] = [];
+    const engine = new GameEngine(makeSession(9), {
+      clock: new SimulatedClock(),
+      invariants: r => reports.push(r),
+      configureSystems: p => p.register('teleporter', {
+        update: state => { state.bots[0].q = state.player.q; state.bots[0].r = state.player.r; }
+      }, { after: CORE_SYSTEMS.GROWTH })
+    });
+
+    engine.processTick();
+    engine.processTick();
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0].source).toBe('system:teleporter');
+    expect(reports[0].violations.map(v => v.rule)).toContain('ENTITY_OVERLAP');
+    expect(deserializeSession(reports[0].stateDump).ok).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { Ledger } from '../Ledger';
+import { SAFETY_CONFIG } from '../../rules/config';
+import { EntityType } from '../../types';
+import { makeEntity } from './fixtures';
+
+describe('Ledger', () => {
+  it('applies and records every change with its reason, tick and hex', () => {
+    const entity = { ...makeEntity('p', EntityType.PLAYER, 0, 0), coins: 10, moves: 2, totalCoinsEarned: 0 };
+
+    Ledger.coins(entity, 25, 'GROWTH', 3, { q: 1, r: -1 });
+    Ledger.moves(entity, 1, 'GROWTH', 3, { q: 1, r: -1 });
+    Ledger.coins(entity, -8, 'MOVE', 4);
+    Ledger.moves(entity, 0, 'MOVE', 4);
+
+    expect(entity).toMatchObject({ coins: 27, moves: 3, totalCoinsEarned: 25 });
+    expect(entity.ledger?.entries).toEqual([
+      { resource: 'COINS', amount: -8, reason: 'MOVE', tick: 4 },
+      { resource: 'MOVES', amount: 1, reason: 'GROWTH', tick: 3, q: 1, r: -1 },
+      { resource: 'COINS', amount: 25, reason: 'GROWTH', tick: 3, q: 1, r: -1 }
+    ]);
+    expect(Ledger.breakdown(entity, 'COINS')).toEqual({
+      earned: 25,
+      spent: 8,
+      lines: [{ reason: 'GROWTH', earned: 25, spent: 0 }, { reason: 'MOVE', earned: 0, spent: 8 }]
+    });
+  });
+
+  it('replaces the ledger on write and caps recent entries', () => {
+    const entity = makeEntity('p', EntityType.PLAYER, 0, 0);
+    Ledger.coins(entity, 1, 'MINE', 0);
+    const before = entity.ledger;
+
+    for (let i = 1; i <= SAFETY_CONFIG.MAX_LEDGER_ENTRIES; i++) Ledger.coins(entity, 1, 'MINE', i);
+
+    expect(before?.entries).toHaveLength(1);
+    expect(before?.totals.COINS.MINE).toEqual({ earned: 1, spent: 0 });
+    expect(entity.ledger?.entries).toHaveLength(SAFETY_CONFIG.MAX_LEDGER_ENTRIES);
+    expect(entity.ledger?.entries[0].tick).toBe(SAFETY_CONFIG.MAX_LEDGER_ENTRIES);
+    expect(entity.ledger?.totals.COINS.MINE).toEqual({ earned: SAFETY_CONFIG.MAX_LEDGER_ENTRIES + 1, spent: 0 });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { MovementCostModel, movementCostModel } from '../../rules/movementCost';
+import { GameEngine } from '../GameEngine';
+import { SimulatedClock } from '../Clock';
+import { findPath, getHexKey } from '../../services/hexUtils';
+import { makeHex, makeSession } from './fixtures';
+
+describe('MovementCostModel', () => {
+  it('charges 1 per step below L2 and the level from L2 up', () => {
+    expect(movementCostModel.stepCost(undefined)).toBe(1);
+    expect(movementCostModel.stepCost({ ...makeHex(0, 0), maxLevel: 1 })).toBe(1);
+    expect(movementCostModel.stepCost({ ...makeHex(0, 0), maxLevel: 3 })).toBe(3);
+  });
+
+  it('applies territory, terrain and custom modifiers', () => {
+    const model = new MovementCostModel({
+      ownTerritorySurcharge: -5,
+      hostileTerritorySurcharge: 2,
+      terrainSurcharge: { BARRIER: 4 }
+    }).withModifier(cost => cost * 10);
+
+    const hex = makeHex(1, 0);
+    expect(model.stepCost({ ...hex, ownerId: 'me' }, 'me')).toBe(1); // Clamped
+    expect(model.stepCost({ ...hex, ownerId: 'rival' }, 'me')).toBe(30);
+    expect(model.stepCost({ ...hex, structureType: 'BARRIER' })).toBe(50);
+  });
+
+  it('quotes the move/coin split', () => {
+    const model = new MovementCostModel({ exchangeRate: 3 });
+    const grid = { [getHexKey(1, 0)]: { ...makeHex(1, 0), maxLevel: 2 }, [getHexKey(2, 0)]: makeHex(2, 0) };
+    const quote = model.quote([{ q: 1, r: 0 }, { q: 2, r: 0 }], grid, { id: 'p', moves: 1, coins: 5 });
+
+    expect(quote).toEqual({ totalMoves: 3, costMoves: 1, costCoins: 6, canAfford: false });
+  });
+
+  it('steers findPath around expensive hexes', () => {
+    const grid: Record<string, ReturnType<typeof makeHex>> = {};
+    for (const [q, r] of [[0, 0], [1, 0], [2, 0], [1, -1], [2, -1]]) grid[getHexKey(q, r)] = makeHex(q, r);
+    grid[getHexKey(1, 0)].ownerId = 'rival';
+
+    const model = new MovementCostModel({ hostileTerritorySurcharge: 5 });
+    const path = findPath({ q: 0, r: 0 }, { q: 2, r: 0 }, grid, 0, [], model, 'me');
+    expect(path!.map(p => getHexKey(p.q, p.r))).not.toContain(getHexKey(1, 0));
+  });
+
+  it('is what the engine charges', () => {
+    const model = new MovementCostModel({ exchangeRate: 7 });
+    const session = makeSession(1);
+    session.player.coins = 20;
+    const engine = new GameEngine(session, { clock: new SimulatedClock(), movementCost: model });
+
+    const path = [{ q: 1, r: 0 }, { q: 1, r: 1 }];
+    const quote = engine.movementCost!.quote(path, engine.state!.grid, engine.state!.player);
+    expect(engine.applyAction('player-1', { type: 'MOVE', path }).ok).toBe(true);
+
+    expect(quote.costCoins).toBe(14);
+    expect(engine.state!.player.coins).toBe(20 - quote.costCoins);
+  });
+});
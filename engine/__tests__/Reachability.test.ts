@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { getReachableHexes, findPath, getHexKey } from '../../services/hexUtils';
+import { MovementCostModel, movementCostModel } from '../../rules/movementCost';
+import { Hex } from '../../types';
+import { makeHex } from './fixtures';
+
+// A straight corridor (0,0) -> (4,0)
+const corridor = (patch: Record<string, Partial<Hex>> = {}): Record<string, Hex> => {
+  const grid: Record<string, Hex> = {};
+  for (let q = 0; q <= 4; q++) grid[getHexKey(q, 0)] = makeHex(q, 0);
+  for (const key in patch) grid[key] = { ...grid[key], ...patch[key] };
+  return grid;
+};
+
+describe('getReachableHexes', () => {
+  it('stops at the budget and excludes the start hex', () => {
+    const reach = getReachableHexes({ q: 0, r: 0 }, corridor(), 0, [], { moves: 2, coins: 0 });
+
+    expect(reach.has(getHexKey(0, 0))).toBe(false);
+    expect(reach.get(getHexKey(2, 0))).toMatchObject({ totalMoves: 2, costMoves: 2, costCoins: 0, steps: 2 });
+    expect(reach.has(getHexKey(3, 0))).toBe(false);
+    expect(reach.size).toBe(18); // Every hex within 2 steps (unexplored hexes count as L0)
+  });
+
+  it('splits the cost into moves and coins', () => {
+    const model = new MovementCostModel({ exchangeRate: 5 });
+    const reach = getReachableHexes({ q: 0, r: 0 }, corridor(), 0, [], { moves: 1, coins: 10 }, model);
+
+    expect(reach.get(getHexKey(3, 0))).toMatchObject({ totalMoves: 3, costMoves: 1, costCoins: 10 });
+    expect(reach.has(getHexKey(4, 0))).toBe(false);
+  });
+
+  it('applies the step rules and obstacles', () => {
+    const grid = corridor({ [getHexKey(1, 0)]: { structureType: 'VOID' } });
+    grid[getHexKey(-1, 0)] = { ...makeHex(-1, 0), maxLevel: 1 };
+    grid[getHexKey(0, 1)] = { ...makeHex(0, 1), maxLevel: 2 };
+    const reach = getReachableHexes({ q: 0, r: 0 }, grid, 0, [{ q: 0, r: -1 }], { moves: 1, coins: 0 });
+
+    expect([...reach.keys()].sort()).toEqual([getHexKey(-1, 1), getHexKey(1, -1)].sort());
+  });
+
+  it('agrees with the cost of the path findPath picks', () => {
+    const grid = corridor({ [getHexKey(2, 0)]: { maxLevel: 1 } });
+    grid[getHexKey(3, 0)] = { ...grid[getHexKey(3, 0)], maxLevel: 2 };
+    const actor = { id: 'p', moves: 3, coins: 100 };
+
+    const reach = getReachableHexes({ q: 0, r: 0 }, grid, 2, [], actor);
+    const path = findPath({ q: 0, r: 0 }, { q: 4, r: 0 }, grid, 2, [])!;
+    const quote = movementCostModel.quote(path, grid, actor);
+
+    expect(reach.get(getHexKey(4, 0))).toMatchObject({
+      totalMoves: quote.totalMoves, costMoves: quote.costMoves, costCoins: quote.costCoins
+    });
+  });
+});
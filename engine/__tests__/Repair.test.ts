@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { ActionProcessor } from '../ActionProcessor';
+import { GrowthSystem } from '../systems/GrowthSystem';
+import { WorldIndex } from '../WorldIndex';
+import { GAME_CONFIG } from '../../rules/config';
+import { getHexKey } from '../../services/hexUtils';
+import { EntityState, GameEvent, RepairPayment, SessionState } from '../../types';
+import { makeSession } from './fixtures';
+
+const REPAIR = GAME_CONFIG.REPAIR;
+const MAX = GAME_CONFIG.L1_HEX_MAX_DURABILITY;
+const HOME = getHexKey(0, 0);
+
+// The player stands on its own worn L1 sector
+const setup = (durability: number) => {
+  const state: SessionState = makeSession(1);
+  state.grid[HOME] = { ...state.grid[HOME], ownerId: state.player.id, maxLevel: 1, currentLevel: 1, durability };
+  const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+  return { state, index };
+};
+
+const repair = (state: SessionState, index: WorldIndex, payWith: RepairPayment = 'COINS') =>
+  new ActionProcessor().applyAction(state, index, state.player.id, { type: 'REPAIR', coord: { q: 0, r: 0 }, payWith });
+
+const runTicks = (state: SessionState, index: WorldIndex, ticks: number): GameEvent[] => {
+  const system = new GrowthSystem();
+  const events: GameEvent[] = [];
+  for (let i = 0; i < ticks; i++) system.update(state, index, events, i);
+  return events;
+};
+
+describe('REPAIR', () => {
+  it('only works on own worn L1 sectors the actor can pay for', () => {
+    const { state, index } = setup(MAX);
+    state.player.coins = 100;
+    expect(repair(state, index)).toEqual({ ok: false, reason: 'DURABILITY FULL' });
+
+    state.grid[HOME] = { ...state.grid[HOME], durability: 2 };
+    state.player.coins = 0;
+    expect(repair(state, index)).toEqual({ ok: false, reason: `INSUFFICIENT CREDITS (NEED ${REPAIR.coinsPerPoint})` });
+    expect(repair(state, index, 'MOVES')).toEqual({ ok: false, reason: `INSUFFICIENT MOVES (NEED ${REPAIR.movesPerPoint})` });
+
+    state.grid[HOME] = { ...state.grid[HOME], maxLevel: 2, currentLevel: 2, durability: undefined };
+    state.player.coins = 100;
+    expect(repair(state, index)).toEqual({ ok: false, reason: 'ONLY L1 SECTORS WEAR' });
+  });
+
+  it('restores one point per period, paying as it goes, until whole', () => {
+    const { state, index } = setup(MAX - 2);
+    state.player.coins = 100;
+    expect(repair(state, index)).toEqual({ ok: true });
+    expect(state.player.coins).toBe(100);
+
+    runTicks(state, index, REPAIR.ticksPerPoint - 1);
+    expect(state.grid[HOME].durability).toBe(MAX - 2);
+    expect(state.player.state).toBe(EntityState.GROWING);
+
+    const first = runTicks(state, index, 1);
+    expect(first.find(e => e.type === 'SECTOR_REPAIRED')?.data).toEqual({ q: 0, r: 0, durability: MAX - 1 });
+    expect(state.player.coins).toBe(100 - REPAIR.coinsPerPoint);
+
+    runTicks(state, index, REPAIR.ticksPerPoint);
+    expect(state.grid[HOME].durability).toBe(MAX);
+    expect(state.player.coins).toBe(100 - 2 * REPAIR.coinsPerPoint);
+    expect(state.player.movementQueue).toHaveLength(0);
+    expect(state.player.state).toBe(EntityState.IDLE);
+  });
+
+  it('stops with a reason once the next point is unaffordable', () => {
+    const { state, index } = setup(1);
+    state.player.moves = REPAIR.movesPerPoint;
+    repair(state, index, 'MOVES');
+
+    runTicks(state, index, REPAIR.ticksPerPoint);
+    expect(state.grid[HOME].durability).toBe(2);
+    expect(state.player.moves).toBe(0);
+
+    const events = runTicks(state, index, 1);
+    expect(events.map(e => e.type)).toEqual(['ACTION_DENIED']);
+    expect(state.messageLog[0].text).toBe(`Repair Failed: INSUFFICIENT MOVES (NEED ${REPAIR.movesPerPoint})`);
+    expect(state.player.movementQueue).toHaveLength(0);
+  });
+});
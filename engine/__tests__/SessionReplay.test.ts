@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { SimulatedClock } from '../Clock';
+import { SessionReplay } from '../SessionReplay';
+import { SAFETY_CONFIG } from '../../rules/config';
+import { makeSession } from './fixtures';
+
+const recordSession = (ticks: number) => {
+  const engine = new GameEngine(makeSession(99), { clock: new SimulatedClock(), record: true });
+  engine.setPlayerIntent(true, 'UPGRADE');
+
+  for (let i = 0; i < ticks; i++) {
+    engine.processTick();
+    if (i === 150) {
+      engine.applyAction('player-1', { type: 'MOVE', path: [{ q: 1, r: 0 }], stateVersion: engine.state!.stateVersion });
+    }
+  }
+  return engine;
+};
+
+describe('SessionReplay', () => {
+  it('journals accepted inputs and every tick', () => {
+    const engine = recordSession(200);
+    const journal = engine.exportJournal()!;
+
+    expect(journal.seed).toBe(99);
+    expect(journal.tickTimes).toHaveLength(200);
+    expect(journal.entries[0]).toMatchObject({ tick: 0, actorId: 'player-1', input: { type: 'INTENT', intent: 'UPGRADE' } });
+    expect(journal.entries.some(e => e.input.type === 'ACTION' && e.input.action.type === 'MOVE')).toBe(true);
+  });
+
+  it('rebuilds the exact session from its journal', () => {
+    const engine = recordSession(200);
+    const result = new SessionReplay(engine.exportJournal()!).run();
+
+    expect(result.divergence).toBeNull();
+    expect(result.ticks).toBe(200);
+    expect(result.state).toEqual(engine.state);
+  });
+
+  it('restarts a full journal from the current state and still replays it', () => {
+    const maxTicks = SAFETY_CONFIG.MAX_JOURNAL_TICKS;
+    SAFETY_CONFIG.MAX_JOURNAL_TICKS = 120;
+    try {
+      const engine = recordSession(200);
+      const journal = engine.exportJournal()!;
+      expect(journal.tickTimes).toHaveLength(80);
+
+      const result = new SessionReplay(journal).run();
+      expect(result.divergence).toBeNull();
+      expect(result.state).toEqual(engine.state);
+    } finally {
+      SAFETY_CONFIG.MAX_JOURNAL_TICKS = maxTicks;
+    }
+  });
+
+  it('reports a divergence when the journal no longer matches', () => {
+    const engine = recordSession(200);
+    const journal = engine.exportJournal()!;
+    journal.entries[0].stateVersion += 1;
+
+    const result = new SessionReplay(journal).run();
+    expect(result.divergence).toMatch(/expected v1/);
+  });
+});
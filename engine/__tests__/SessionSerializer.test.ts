@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { serializeSession, deserializeSession, SAVE_SCHEMA_VERSION } from '../SessionSerializer';
+import { GameEngine } from '../GameEngine';
+import { SimulatedClock } from '../Clock';
+import { makeSession } from './fixtures';
+
+describe('SessionSerializer', () => {
+  it('round-trips a session', () => {
+    const engine = new GameEngine(makeSession(5), { clock: new SimulatedClock() });
+    for (let i = 0; i < 20; i++) engine.processTick();
+
+    const res = deserializeSession(serializeSession(engine.state!, 'Slot A', 123));
+
+    expect(res.ok).toBe(true);
+    expect(res.file!.schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+    expect(res.file!.label).toBe('Slot A');
+    expect(res.file!.state).toEqual(engine.state);
+  });
+
+  it('migrates bare v0 session dumps', () => {
+    const { seed, rngState, ...legacy } = makeSession(5);
+    const res = deserializeSession(JSON.stringify(legacy));
+
+    expect(res.ok).toBe(true);
+    expect(res.file!.schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+    expect(typeof res.file!.state.seed).toBe('number');
+    expect(res.file!.state.rngState).toBe(res.file!.state.seed);
+  });
+
+  it('rejects corrupted and future saves', () => {
+    expect(deserializeSession('{not json').ok).toBe(false);
+    expect(deserializeSession(JSON.stringify({ schemaVersion: SAVE_SCHEMA_VERSION + 1, state: {} })).reason).toMatch(/newer version/);
+    expect(deserializeSession(JSON.stringify({ schemaVersion: SAVE_SCHEMA_VERSION, state: {} })).ok).toBe(false);
+    expect(deserializeSession('42').reason).toBe('Save is missing session data');
+    expect(deserializeSession('null').reason).toBe('Save is missing session data');
+  });
+
+  it('continues identically after a save/load', () => {
+    const original = new GameEngine(makeSession(8), { clock: new SimulatedClock() });
+    for (let i = 0; i < 30; i++) original.processTick();
+
+    const loaded = deserializeSession(serializeSession(original.state!, 'mid', 0)).file!.state;
+    const resumed = new GameEngine(loaded, { clock: new SimulatedClock(original.clock.now()) });
+
+    for (let i = 0; i < 30; i++) {
+      original.processTick();
+      resumed.processTick();
+    }
+    expect(resumed.state).toEqual(original.state);
+  });
+});
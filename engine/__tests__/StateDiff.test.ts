@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { diffStates, applyStateDiff, isEmptyDiff } from '../StateDiff';
+import { GameEngine } from '../GameEngine';
+import { SimulatedClock } from '../Clock';
+import { SessionState } from '../../types';
+import { getHexKey } from '../../services/hexUtils';
+import { makeSession } from './fixtures';
+
+const withoutVisuals = ({ effects, telemetry, ...rest }: SessionState) => rest;
+
+describe('StateDiff', () => {
+  it('captures only touched hexes, entity fields and new log entries', () => {
+    const prev = makeSession(1);
+    const key = getHexKey(0, 0);
+    const next: SessionState = {
+      ...prev,
+      stateVersion: 1,
+      grid: { ...prev.grid, [key]: { ...prev.grid[key], progress: 1 } },
+      player: { ...prev.player, coins: 10 },
+      messageLog: [{ id: 'm1', text: 'hello', type: 'INFO', source: 'SYSTEM', timestamp: 1 }],
+      isPlayerGrowing: true
+    };
+
+    const diff = diffStates(prev, next);
+
+    expect(Object.keys(diff.hexes)).toEqual([key]);
+    expect(diff.entities).toEqual([{ id: 'player-1', changes: { coins: 10 } }]);
+    expect(diff.messageLog.map(l => l.id)).toEqual(['m1']);
+    expect(diff.session).toEqual({ isPlayerGrowing: true });
+    expect(isEmptyDiff(diffStates(next, next))).toBe(true);
+  });
+
+  it('mirrors the engine state when diffs are applied tick by tick', () => {
+    const engine = new GameEngine(makeSession(21), { clock: new SimulatedClock(), diffs: true });
+    let mirror = engine.state!;
+
+    for (let i = 0; i < 200; i++) {
+      const { diff } = engine.processTick();
+      mirror = applyStateDiff(mirror, diff!);
+    }
+
+    const res = engine.applyAction('player-1', { type: 'WAIT', stateVersion: engine.state!.stateVersion });
+    expect(res.ok).toBe(true);
+    mirror = applyStateDiff(mirror, res.diff!);
+
+    expect(withoutVisuals(mirror)).toEqual(withoutVisuals(engine.state!));
+  });
+
+  it('mirrors the engine state across player intent toggles', () => {
+    const engine = new GameEngine(makeSession(21), { clock: new SimulatedClock(), diffs: true });
+    let mirror = engine.state!;
+
+    mirror = applyStateDiff(mirror, engine.setPlayerIntent(true, 'RECOVER')!);
+    for (let i = 0; i < 20; i++) mirror = applyStateDiff(mirror, engine.processTick().diff!);
+    mirror = applyStateDiff(mirror, engine.setPlayerIntent(false, null)!);
+    mirror = applyStateDiff(mirror, engine.processTick().diff!);
+
+    expect(withoutVisuals(mirror)).toEqual(withoutVisuals(engine.state!));
+  });
+
+    it('rejects diffs for a different base version', () => {
+    const prev = makeSession(1);
+    const diff = diffStates(prev, { ...prev, stateVersion: 1 });
+    expect(() => applyStateDiff({ ...prev, stateVersion: 5 }, diff)).toThrow(/expects version 0/);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import { ActionProcessor } from '../ActionProcessor';
+import { StructureSystem } from '../systems/StructureSystem';
+import { VictorySystem } from '../systems/VictorySystem';
+import { WorldIndex } from '../WorldIndex';
+import { GAME_CONFIG } from '../../rules/config';
+import { findPath, getHexKey } from '../../services/hexUtils';
+import { buildStructure } from '../../rules/structures';
+import { GameEvent, SessionState, StructureType } from '../../types';
+import { makeSession } from './fixtures';
+
+const MINE = GAME_CONFIG.STRUCTURES.MINE;
+const HOME = getHexKey(0, 0);
+
+const setup = () => {
+  const state: SessionState = makeSession(1);
+  state.grid[HOME] = { ...state.grid[HOME], ownerId: state.player.id };
+  const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+  return { state, index };
+};
+
+const BARRIER = GAME_CONFIG.STRUCTURES.BARRIER;
+const CAPITAL = GAME_CONFIG.STRUCTURES.CAPITAL;
+
+const build = (state: SessionState, index: WorldIndex, upgradeType: StructureType = 'MINE') =>
+  new ActionProcessor().applyAction(state, index, state.player.id, {
+    type: 'UPGRADE', coord: { q: 0, r: 0 }, upgradeType
+  });
+
+const runMineTicks = (state: SessionState, index: WorldIndex, ticks: number): GameEvent[] => {
+  const system = new StructureSystem();
+  const events: GameEvent[] = [];
+  for (let i = 0; i < ticks; i++) {
+    system.update(state, index, events, i);
+    state.tick++;
+  }
+  return events;
+};
+
+describe('MINE structures', () => {
+  it('validates and pays for a build', () => {
+    const { state, index } = setup();
+    expect(build(state, index)).toEqual({ ok: false, reason: `INSUFFICIENT CREDITS (NEED ${MINE.cost})` });
+
+    state.player.coins = MINE.cost + 5;
+    expect(build(state, index)).toEqual({ ok: true });
+    expect(state.player.coins).toBe(5);
+    expect(state.grid[HOME]).toMatchObject({ structureType: 'MINE', structureHp: MINE.maxHp });
+    expect(index.getStructures('MINE')).toHaveLength(1);
+
+    state.player.coins = MINE.cost;
+    expect(build(state, index)).toEqual({ ok: false, reason: 'SECTOR HAS MINE' });
+  });
+
+  it('pays its owner once per mine tick', () => {
+    const { state, index } = setup();
+    state.player.coins = MINE.cost;
+    build(state, index);
+
+    runMineTicks(state, index, 1);
+    const waiting = state.grid[HOME];
+    runMineTicks(state, index, MINE.incomeIntervalTicks - 2);
+    expect(state.grid[HOME]).toBe(waiting);
+    expect(state.player.coins).toBe(0);
+
+    runMineTicks(state, index, 1);
+    expect(state.player.coins).toBe(MINE.incomePerTick);
+    expect(state.player.totalCoinsEarned).toBe(MINE.incomePerTick);
+    expect(state.grid[HOME].mineDueAt).toBe(state.tick - 1 + MINE.incomeIntervalTicks);
+  });
+
+  it('is raided by a hostile occupant until destroyed', () => {
+    const { state, index } = setup();
+    state.player.coins = MINE.cost;
+    build(state, index);
+
+    // Owner walks away, a bot moves in
+    index.updateEntityPosition(state.player.id, 0, 0, 1, 0);
+    index.updateEntityPosition(state.bots[0].id, 0, -2, 0, 0);
+    state.player.q = 1;
+    state.bots[0].r = 0;
+
+    runMineTicks(state, index, MINE.incomeIntervalTicks);
+    expect(state.grid[HOME].structureHp).toBe(MINE.maxHp - MINE.raidDamage);
+    expect(state.player.coins).toBe(0);
+
+    const raids = Math.ceil(MINE.maxHp / MINE.raidDamage) - 1;
+    const events = runMineTicks(state, index, MINE.incomeIntervalTicks * raids);
+    expect(state.grid[HOME].structureType).toBeUndefined();
+    expect(state.grid[HOME].ownerId).toBe(state.player.id);
+    expect(index.getStructures('MINE')).toHaveLength(0);
+    expect(events.map(e => e.type)).toEqual(['STRUCTURE_DESTROYED']);
+    expect(events[0].entityId).toBe(state.player.id);
+  });
+});
+
+describe('BARRIER structures', () => {
+  it('scales HP with the sector level', () => {
+    const { state, index } = setup();
+    state.grid[HOME] = { ...state.grid[HOME], maxLevel: 2, currentLevel: 2 };
+    index.syncGrid({ ...state.grid });
+    state.player.coins = BARRIER.cost;
+
+    expect(build(state, index, 'BARRIER')).toEqual({ ok: true });
+    expect(state.player.coins).toBe(0);
+    expect(state.grid[HOME]).toMatchObject({ structureType: 'BARRIER', structureHp: BARRIER.hpPerLevel * 2 });
+  });
+
+  it('blocks hostile paths and moves but not its owner', () => {
+    const { state, index } = setup();
+    const wall = getHexKey(1, -1);
+    state.grid[wall] = buildStructure({ ...state.grid[wall], ownerId: state.player.id, maxLevel: 1 }, 'BARRIER');
+    index.syncGrid({ ...state.grid });
+
+    const bot = state.bots[0]; // (0,-2)
+    const detour = findPath(bot, { q: 1, r: 0 }, state.grid, 1, [], undefined, bot.id)!;
+    expect(detour.map(p => getHexKey(p.q, p.r))).not.toContain(wall);
+    expect(findPath(bot, { q: 1, r: -1 }, state.grid, 1, [], undefined, bot.id)).toBeNull();
+    expect(findPath(state.player, { q: 1, r: -1 }, state.grid, 1, [], undefined, state.player.id)).toEqual([{ q: 1, r: -1 }]);
+
+    bot.moves = 10;
+    bot.playerLevel = 1;
+    const move = new ActionProcessor().validateAction(state, index, bot.id, { type: 'MOVE', path: [{ q: 1, r: -2 }, { q: 1, r: -1 }] });
+    expect(move).toMatchObject({ ok: false });
+    expect(move.reason).toContain('BARRIER');
+  });
+
+  it('wears down under hostile pressure until destroyed', () => {
+    const { state, index } = setup();
+    state.player.coins = BARRIER.cost;
+    build(state, index, 'BARRIER');
+    index.updateEntityPosition(state.player.id, 0, 0, 1, 0);
+    state.player.q = 1;
+
+    // Nobody adjacent: no wear
+    runMineTicks(state, index, BARRIER.pressureIntervalTicks * 2);
+    expect(state.grid[HOME].structureHp).toBe(BARRIER.hpPerLevel);
+
+    // Two bots press from adjacent sectors
+    index.updateEntityPosition(state.bots[0].id, 0, -2, 0, -1);
+    index.updateEntityPosition(state.bots[1].id, 2, 0, -1, 0);
+    runMineTicks(state, index, BARRIER.pressureIntervalTicks);
+    expect(state.grid[HOME].structureHp).toBe(BARRIER.hpPerLevel - 2 * BARRIER.pressureDamage);
+
+    const events = runMineTicks(state, index, BARRIER.pressureIntervalTicks * BARRIER.hpPerLevel);
+    expect(state.grid[HOME].structureType).toBeUndefined();
+    expect(events.map(e => e.type)).toEqual(['STRUCTURE_DESTROYED']);
+    expect(events[0].data).toMatchObject({ structureType: 'BARRIER' });
+  });
+});
+
+describe('CAPITAL structures', () => {
+  const setupCapital = () => {
+    const { state, index } = setup();
+    state.grid[HOME] = { ...state.grid[HOME], maxLevel: CAPITAL.minLevel, currentLevel: CAPITAL.minLevel };
+    index.syncGrid({ ...state.grid });
+    state.player.coins = CAPITAL.cost;
+    expect(build(state, index, 'CAPITAL')).toEqual({ ok: true });
+    return { state, index };
+  };
+
+  it('needs a high sector and allows one per entity', () => {
+    const { state, index } = setup();
+    state.player.coins = CAPITAL.cost;
+    expect(build(state, index, 'CAPITAL')).toEqual({ ok: false, reason: `CAPITAL NEEDS L${CAPITAL.minLevel} SECTOR` });
+
+    const second = setupCapital();
+    const other = getHexKey(1, 0);
+    second.state.grid[other] = { ...second.state.grid[other], ownerId: second.state.player.id, maxLevel: CAPITAL.minLevel };
+    second.index.syncGrid({ ...second.state.grid });
+    second.index.updateEntityPosition(second.state.player.id, 0, 0, 1, 0);
+    second.state.player.q = 1;
+    second.state.player.coins = CAPITAL.cost;
+
+    const result = new ActionProcessor().validateAction(second.state, second.index, second.state.player.id, {
+      type: 'UPGRADE', coord: { q: 1, r: 0 }, upgradeType: 'CAPITAL'
+    });
+    expect(result).toEqual({ ok: false, reason: 'CAPITAL LIMIT REACHED (1)' });
+  });
+
+  it('shields adjacent owned structures', () => {
+    const { state, index } = setupCapital();
+    const mineKey = getHexKey(1, 0);
+    state.grid[mineKey] = buildStructure({ ...state.grid[mineKey], ownerId: state.player.id, maxLevel: 1 }, 'MINE');
+    index.syncGrid({ ...state.grid });
+    index.updateEntityPosition(state.bots[1].id, 2, 0, 1, 0);
+
+    runMineTicks(state, index, MINE.incomeIntervalTicks);
+    expect(state.grid[mineKey].structureHp).toBeCloseTo(MINE.maxHp - MINE.raidDamage / (1 + CAPITAL.defenseBonus));
+  });
+
+  it('costs coins when lost, and the game when configured', () => {
+    const { state, index } = setupCapital();
+    index.updateEntityPosition(state.player.id, 0, 0, 1, 0);
+    index.updateEntityPosition(state.bots[0].id, 0, -2, 0, 0);
+    state.player.coins = 100;
+
+    const raids = Math.ceil(CAPITAL.maxHp * (1 + CAPITAL.defenseBonus) / CAPITAL.raidDamage);
+    const events = runMineTicks(state, index, CAPITAL.raidIntervalTicks * raids);
+    expect(state.grid[HOME].structureType).toBeUndefined();
+    expect(state.player.coins).toBe(100 - Math.floor(100 * CAPITAL.lossPenalty));
+
+    const victory = new VictorySystem();
+    victory.update(state, index, events, 0);
+    expect(state.gameStatus).toBe('PLAYING');
+
+    CAPITAL.lossIsDefeat = true;
+    try {
+      victory.update(state, index, events, 0);
+      expect(state.gameStatus).toBe('DEFEAT');
+    } finally {
+      CAPITAL.lossIsDefeat = false;
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { SimulatedClock } from '../Clock';
+import { SystemPipeline, CORE_SYSTEMS } from '../systems/SystemPipeline';
+import { System } from '../systems/System';
+import { WorldIndex } from '../WorldIndex';
+import { GameEvent, SessionState } from '../../types';
+import { makeSession } from './fixtures';
+
+class CounterSystem implements System {
+  public calls: number[] = [];
+  public step = 1;
+
+  constructor(private log?: string[], private name = 'counter') {}
+
+  update(_state: SessionState, _index: WorldIndex, _events: GameEvent[], now: number) {
+    this.calls.push(now);
+    this.log?.push(this.name);
+  }
+
+  configure(config: Record<string, unknown>) {
+    if (typeof config.step === 'number') this.step = config.step;
+  }
+}
+
+describe('SystemPipeline', () => {
+  it('registers, reorders and removes systems', () => {
+    const log: string[] = [];
+    const pipeline = new SystemPipeline()
+      .register('a', new CounterSystem(log, 'a'))
+      .register('c', new CounterSystem(log, 'c'))
+      .register('b', new CounterSystem(log, 'b'), { before: 'c' });
+
+    expect(pipeline.getIds()).toEqual(['a', 'b', 'c']);
+
+    pipeline.move('a', { after: 'c' });
+    expect(pipeline.getIds()).toEqual(['b', 'c', 'a']);
+
+    expect(pipeline.unregister('c')).toBe(true);
+    expect(pipeline.unregister('c')).toBe(false);
+    expect(pipeline.getIds()).toEqual(['b', 'a']);
+
+    expect(() => pipeline.register('a', new CounterSystem())).toThrow(/already registered/);
+    expect(() => pipeline.move('missing', {})).toThrow(/not registered/);
+  });
+
+  it('filters systems by enabled flag and game mode', () => {
+    const easyOnly = new CounterSystem();
+    const disabled = new CounterSystem();
+    const pipeline = new SystemPipeline()
+      .register('easy', easyOnly, { enabledWhen: s => s.difficulty === 'EASY' })
+      .register('off', disabled, { enabled: false });
+
+    const session = makeSession(1);
+    expect(pipeline.getActive(session)).toEqual([easyOnly]);
+    expect(pipeline.getActive({ ...session, difficulty: 'HARD' })).toEqual([]);
+
+    pipeline.setEnabled('off', true);
+    expect(pipeline.getActive({ ...session, difficulty: 'HARD' })).toEqual([disabled]);
+  });
+
+  it('passes per-system config', () => {
+    const counter = new CounterSystem();
+    const pipeline = new SystemPipeline().register('counter', counter, { config: { step: 3 } });
+    expect(counter.step).toBe(3);
+
+    pipeline.configure('counter', { step: 5 });
+    expect(pipeline.get<CounterSystem>('counter')!.step).toBe(5);
+  });
+});
+
+describe('GameEngine system registration', () => {
+  it('runs the core systems plus custom ones in pipeline order', () => {
+    const counter = new CounterSystem();
+    const engine = new GameEngine(makeSession(1), {
+      clock: new SimulatedClock(0, 100),
+      configureSystems: pipeline => pipeline.register('counter', counter, { after: CORE_SYSTEMS.GROWTH })
+    });
+
+    expect(engine.pipeline.getIds()).toEqual([
+      CORE_SYSTEMS.GROWTH, 'counter', CORE_SYSTEMS.AI, CORE_SYSTEMS.MOVEMENT, CORE_SYSTEMS.STRUCTURES, CORE_SYSTEMS.ECONOMY, CORE_SYSTEMS.DECAY, CORE_SYSTEMS.TERRAIN, CORE_SYSTEMS.VICTORY
+    ]);
+
+    engine.processTick();
+    engine.processTick();
+    expect(counter.calls).toEqual([100, 200]);
+  });
+
+  it('stops running a system once it is unregistered', () => {
+    const counter = new CounterSystem();
+    const engine = new GameEngine(makeSession(1), {
+      clock: new SimulatedClock(),
+      configureSystems: pipeline => pipeline.register('counter', counter)
+    });
+
+    engine.processTick();
+    engine.pipeline.unregister('counter');
+    engine.processTick();
+    expect(counter.calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { ActionProcessor } from '../ActionProcessor';
+import { TerrainSystem } from '../systems/TerrainSystem';
+import { WorldIndex } from '../WorldIndex';
+import { GAME_CONFIG } from '../../rules/config';
+import { findPath, getHexKey, getNeighbors } from '../../services/hexUtils';
+import { checkGrowthCondition } from '../../rules/growth';
+import { getRegenerationTicksLeft } from '../../rules/terrain';
+import { GameEvent, SessionState } from '../../types';
+import { makeSession } from './fixtures';
+
+const VOID = GAME_CONFIG.VOID;
+const HOLE = getHexKey(1, 0);
+
+// A hole right next to the player at (0,0), collapsed at tick 0
+const setup = () => {
+  const state: SessionState = makeSession(1);
+  state.grid[HOLE] = { ...state.grid[HOLE], structureType: 'VOID', collapsedAt: 0 };
+  const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+  return { state, index };
+};
+
+const bridge = (state: SessionState, index: WorldIndex, q = 1, r = 0) =>
+  new ActionProcessor().applyAction(state, index, state.player.id, { type: 'BUILD_BRIDGE', coord: { q, r } });
+
+const runTicks = (state: SessionState, index: WorldIndex, ticks: number): GameEvent[] => {
+  const system = new TerrainSystem();
+  const events: GameEvent[] = [];
+  for (let i = 0; i < ticks; i++) {
+    system.update(state, index, events, i);
+    state.tick++;
+  }
+  return events;
+};
+
+describe('VOID terrain', () => {
+  it('bridges an adjacent hole for a coin cost', () => {
+    const { state, index } = setup();
+    expect(bridge(state, index)).toEqual({ ok: false, reason: `INSUFFICIENT CREDITS (NEED ${VOID.bridgeCost})` });
+    expect(bridge(state, index, 0, -1)).toEqual({ ok: false, reason: 'NOT A VOID SECTOR' });
+
+    state.player.coins = VOID.bridgeCost;
+    expect(bridge(state, index)).toEqual({ ok: true });
+    expect(state.player.coins).toBe(0);
+    expect(state.grid[HOLE].structureType).toBe('BRIDGE');
+    expect(index.getStructures('BRIDGE')).toHaveLength(1);
+    expect(bridge(state, index)).toEqual({ ok: false, reason: 'ALREADY BRIDGED' });
+  });
+
+  it('lets units path over bridges but never own them', () => {
+    const { state, index } = setup();
+    expect(findPath(state.player, { q: 1, r: 0 }, state.grid, 0, [], undefined, state.player.id)).toBeNull();
+
+    state.player.coins = VOID.bridgeCost;
+    bridge(state, index);
+    expect(findPath(state.player, { q: 1, r: 0 }, state.grid, 0, [], undefined, state.player.id)).toEqual([{ q: 1, r: 0 }]);
+
+    const onBridge = { ...state.player, q: 1, r: 0 };
+    const check = checkGrowthCondition(state.grid[HOLE], onBridge, getNeighbors(1, 0), state.grid);
+    expect(check).toEqual({ canGrow: false, reason: 'BRIDGE SECTOR' });
+  });
+
+  it('regenerates holes and bridges into neutral ground', () => {
+    const { state, index } = setup();
+    const hole = state.grid[HOLE];
+    runTicks(state, index, VOID.regenerationTicks);
+    expect(state.grid[HOLE]).toBe(hole);
+    expect(getRegenerationTicksLeft(hole, state.tick)).toBe(0);
+
+    state.player.coins = VOID.bridgeCost;
+    bridge(state, index);
+
+    const events = runTicks(state, index, 1);
+    expect(events.map(e => e.type)).toEqual(['VOID_REGENERATED']);
+    expect(state.grid[HOLE].structureType).toBeUndefined();
+    expect(state.grid[HOLE]).toMatchObject({ maxLevel: 0, currentLevel: 0 });
+    expect(state.grid[HOLE].ownerId).toBeUndefined();
+    expect(index.getStructures('VOID')).toHaveLength(0);
+    expect(index.getStructures('BRIDGE')).toHaveLength(0);
+  });
+});
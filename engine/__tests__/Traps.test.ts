@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { ActionProcessor } from '../ActionProcessor';
+import { MovementSystem } from '../systems/MovementSystem';
+import { WorldIndex } from '../WorldIndex';
+import { GAME_CONFIG } from '../../rules/config';
+import { getHexKey } from '../../services/hexUtils';
+import { Entity, EntityState, GameEvent, SessionState } from '../../types';
+import { makeSession } from './fixtures';
+
+const TRAP = GAME_CONFIG.TRAP;
+const HOME = getHexKey(0, 0);
+
+// Player arms a trap at (0,0) and steps aside to (1,0)
+const setup = () => {
+  const state: SessionState = makeSession(1);
+  state.grid[HOME] = { ...state.grid[HOME], ownerId: state.player.id };
+  const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+  state.player.coins = TRAP.cost;
+
+  const res = new ActionProcessor().applyAction(state, index, state.player.id, { type: 'ARM_TRAP', coord: { q: 0, r: 0 } });
+  expect(res).toEqual({ ok: true });
+
+  index.updateEntityPosition(state.player.id, 0, 0, 1, 0);
+  state.player.q = 1;
+  return { state, index };
+};
+
+const step = (state: SessionState, index: WorldIndex, entity: Entity, to: { q: number; r: number }): GameEvent[] => {
+  entity.movementQueue = [to];
+  const events: GameEvent[] = [];
+  new MovementSystem().update(state, index, events, 10_000);
+  return events;
+};
+
+describe('Traps', () => {
+  it('arms on an owned sector for a coin cost', () => {
+    const { state, index } = setup();
+    expect(state.player.coins).toBe(0);
+    expect(state.grid[HOME].trap).toEqual({ active: true, potency: TRAP.potency });
+
+    index.updateEntityPosition(state.player.id, 1, 0, 0, 0);
+    state.player.q = 0;
+    state.player.coins = TRAP.cost;
+    const again = new ActionProcessor().validateAction(state, index, state.player.id, { type: 'ARM_TRAP', coord: { q: 0, r: 0 } });
+    expect(again).toEqual({ ok: false, reason: 'TRAP ALREADY ARMED' });
+  });
+
+  it('drains and locks a rival, then releases it', () => {
+    const { state, index } = setup();
+    const bot = state.bots[0]; // (0,-2)
+    index.updateEntityPosition(bot.id, 0, -2, 0, -1);
+    bot.r = -1;
+    bot.moves = 5;
+    bot.coins = 100;
+
+    const events = step(state, index, bot, { q: 0, r: 0 });
+    const trapEvent = events.find(e => e.type === 'TRAP_TRIGGERED');
+    expect(trapEvent?.entityId).toBe(bot.id);
+    expect(trapEvent?.data).toMatchObject({ q: 0, r: 0, ownerId: state.player.id });
+
+    expect(bot.moves).toBe(5 - TRAP.potency);
+    expect(bot.coins).toBe(100 - TRAP.potency * TRAP.coinsPerPotency);
+    expect(bot.state).toBe(EntityState.LOCKED);
+    expect(bot.memory?.knownTraps).toEqual([HOME]);
+    expect(state.grid[HOME].trap).toBeNull();
+
+    const movement = new MovementSystem();
+    const lockTicks = TRAP.potency * TRAP.lockTicksPerPotency;
+    for (let i = 0; i < lockTicks - 1; i++) movement.update(state, index, [], 10_000);
+    expect(bot.state).toBe(EntityState.LOCKED);
+    movement.update(state, index, [], 10_000);
+    expect(bot.state).toBe(EntityState.IDLE);
+    expect(bot.lockedTicks).toBeUndefined();
+  });
+
+  it('lets the owner walk over its own trap', () => {
+    const { state, index } = setup();
+    const events = step(state, index, state.player, { q: 0, r: 0 });
+    expect(events.map(e => e.type)).not.toContain('TRAP_TRIGGERED');
+    expect(state.grid[HOME].trap?.active).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { WorldIndex } from '../WorldIndex';
+import { GameEngine } from '../GameEngine';
+import { SimulatedClock } from '../Clock';
+import { System } from '../systems/System';
+import { CORE_SYSTEMS } from '../systems/SystemPipeline';
+import { Hex, SessionState } from '../../types';
+import { getHexKey } from '../../services/hexUtils';
+import { makeHex, makeSession } from './fixtures';
+
+const owned = (hex: Hex, ownerId: string): Hex => ({ ...hex, ownerId, maxLevel: 1, currentLevel: 1 });
+
+const scanOwned = (grid: Record<string, Hex>, ownerId: string) =>
+  Object.values(grid).filter(h => h.ownerId === ownerId).map(h => h.id).sort();
+
+describe('WorldIndex', () => {
+  it('keeps ownership and structure indices in sync through setHex', () => {
+    const state = makeSession(1);
+    const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+    const originalGrid = state.grid;
+    const key = getHexKey(1, 0);
+
+    index.setHex(state, owned(state.grid[key], 'player-1'));
+    expect(state.grid).not.toBe(originalGrid); // Copy-On-Write
+    expect(originalGrid[key].ownerId).toBeUndefined();
+    expect(index.getHexesOwnedBy('player-1').map(h => h.id)).toEqual([key]);
+
+    index.setHex(state, { ...state.grid[key], ownerId: 'bot-1', structureType: 'MINE' });
+    expect(index.getHexesOwnedBy('player-1')).toEqual([]);
+    expect(index.getHexesOwnedBy('bot-1').map(h => h.id)).toEqual([key]);
+    expect(index.getStructures('MINE').map(h => h.id)).toEqual([key]);
+
+    index.setHex(state, { ...state.grid[key], structureType: 'NONE' });
+    expect(index.getStructures('MINE')).toEqual([]);
+  });
+
+  it('finds the territory border', () => {
+    const state = makeSession(1);
+    const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+
+    // Centre hex plus its full ring: only the ring is on the border
+    const territory = [makeHex(0, 0), makeHex(1, 0), makeHex(1, -1), makeHex(0, -1), makeHex(-1, 0), makeHex(-1, 1), makeHex(0, 1)];
+    index.setHexes(state, territory.map(h => owned(h, 'player-1')));
+
+    const border = index.getTerritoryBorder('player-1').map(h => h.id);
+    expect(border).toHaveLength(6);
+    expect(border).not.toContain(getHexKey(0, 0));
+    expect(index.getTerritoryBorder('nobody')).toEqual([]);
+  });
+
+  it('rebuilds when synced to a grid it did not write', () => {
+    const state = makeSession(1);
+    const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+    const key = getHexKey(0, 1);
+
+    index.syncGrid({ ...state.grid, [key]: owned(state.grid[key], 'bot-2') });
+    expect(index.getHexesOwnedBy('bot-2').map(h => h.id)).toEqual([key]);
+  });
+
+  it('matches a full grid scan after a simulated match', () => {
+    const mismatches: string[] = [];
+    const checker: System = {
+      update: (state: SessionState, index: WorldIndex) => {
+        for (const e of [state.player, ...state.bots]) {
+          const indexed = index.getHexesOwnedBy(e.id).map(h => h.id);
+          if (indexed.join() !== scanOwned(state.grid, e.id).join()) mismatches.push(`${state.stateVersion}:${e.id}`);
+        }
+      }
+    };
+
+    const engine = new GameEngine(makeSession(11), {
+      clock: new SimulatedClock(),
+      configureSystems: p => p.register('ownership-check', checker, { after: CORE_SYSTEMS.VICTORY })
+    });
+    for (let i = 0; i < 300; i++) engine.processTick();
+
+    expect(Object.values(engine.state!.grid).some(h => h.ownerId)).toBe(true);
+    expect(mismatches).toEqual([]);
+  });
+});
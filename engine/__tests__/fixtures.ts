@@ -0,0 +1,47 @@
+import { Entity, EntityState, EntityType, Hex, SessionState } from '../../types';
+import { getHexKey, getNeighbors } from '../../services/hexUtils';
+
+// Shared builders for engine tests: a small revealed map with the player and two bots.
+
+export const makeHex = (q: number, r: number): Hex => ({
+  id: getHexKey(q, r), q, r, currentLevel: 0, maxLevel: 0, progress: 0, revealed: true
+});
+
+export const makeEntity = (id: string, type: EntityType, q: number, r: number): Entity => ({
+  id, type, state: EntityState.IDLE, q, r,
+  playerLevel: 0, coins: 0, moves: 0, totalCoinsEarned: 0,
+  recentUpgrades: [], movementQueue: [],
+  memory: type === EntityType.BOT ? { lastPlayerPos: null, currentGoal: null, stuckCounter: 0 } : undefined
+});
+
+export const makeSession = (seed: number): SessionState => {
+  const grid: Record<string, Hex> = {};
+  for (const c of [{ q: 0, r: 0 }, { q: 0, r: -2 }, { q: 2, r: 0 }]) {
+    grid[getHexKey(c.q, c.r)] = makeHex(c.q, c.r);
+    getNeighbors(c.q, c.r).forEach(n => { grid[getHexKey(n.q, n.r)] = makeHex(n.q, n.r); });
+  }
+
+  return {
+    stateVersion: 0,
+    tick: 0,
+    sessionId: 'test-session',
+    sessionStartTime: 0,
+    seed,
+    rngState: seed,
+    winCondition: { targetLevel: 3, targetCoins: 500, label: 'Test', botCount: 2, difficulty: 'EASY' },
+    difficulty: 'EASY',
+    grid,
+    player: makeEntity('player-1', EntityType.PLAYER, 0, 0),
+    bots: [makeEntity('bot-1', EntityType.BOT, 0, -2), makeEntity('bot-2', EntityType.BOT, 2, 0)],
+    currentTurn: 0,
+    gameStatus: 'PLAYING',
+    messageLog: [],
+    botActivityLog: [],
+    lastBotActionTime: 0,
+    isPlayerGrowing: false,
+    playerGrowthIntent: null,
+    growingBotIds: [],
+    telemetry: [],
+    effects: []
+  };
+};
@@ -1,14 +1,13 @@
-
-import { GameEvent, GameEventType } from '../types';
+import { GameEventOf, GameEventPayloads, GameEventType } from '../types';
 
 export class GameEventFactory {
-  static create(type: GameEventType, message?: string, entityId?: string, data?: Record<string, unknown>): GameEvent {
+  static create<T extends GameEventType>(type: T, timestamp: number, message?: string, entityId?: string, data?: GameEventPayloads[T]): GameEventOf<T> {
     return {
       type,
       message,
       entityId,
       data,
-      timestamp: Date.now()
-    };
+      timestamp
+    } as GameEventOf<T>;
   }
 }
@@ -0,0 +1,81 @@
+import { Entity, Hex, EntityType, EntityState, WinCondition, SessionState, LogEntry } from '../types';
+import { GAME_CONFIG } from '../rules/config';
+import { getHexKey, getNeighbors } from '../services/hexUtils';
+import { SeededRandom } from './SeededRandom';
+
+const BOT_PALETTE = ['#ef4444', '#f97316', '#a855f7', '#ec4899']; 
+
+// Generates the data for a NEW game session. UI state is not part of this.
+// The seed is the only entropy a session gets; everything random afterwards derives from it.
+export const createInitialSessionData = (
+  winCondition: WinCondition,
+  seed: number = SeededRandom.createSeed(),
+  startTime: number = Date.now()
+): SessionState => {
+  const rngHolder = { rngState: seed };
+  const rng = new SeededRandom(rngHolder);
+
+  const startHex = { id: getHexKey(0,0), q:0, r:0, currentLevel: 0, maxLevel: 0, progress: 0, revealed: true };
+  const initialGrid: Record<string, Hex> = { [getHexKey(0,0)]: startHex };
+  getNeighbors(0, 0).forEach(n => { initialGrid[getHexKey(n.q, n.r)] = { id: getHexKey(n.q,n.r), q:n.q, r:n.r, currentLevel:0, maxLevel:0, progress:0, revealed:true }; });
+  
+  const botCount = winCondition.botCount ?? 1;
+  const bots: Entity[] = [];
+  const spawnPoints = [{ q: 0, r: -2 }, { q: 2, r: -2 }, { q: 2, r: 0 }, { q: 0, r: 2 }, { q: -2, r: 2 }, { q: -2, r: 0 }];
+
+  for (let i = 0; i < Math.min(botCount, spawnPoints.length); i++) {
+    const sp = spawnPoints[i];
+    if (!initialGrid[getHexKey(sp.q, sp.r)]) {
+        initialGrid[getHexKey(sp.q, sp.r)] = { id: getHexKey(sp.q,sp.r), q:sp.q, r:sp.r, currentLevel:0, maxLevel:0, progress:0, revealed:true };
+        getNeighbors(sp.q, sp.r).forEach(n => {
+            const k = getHexKey(n.q, n.r);
+            if (!initialGrid[k]) initialGrid[k] = { id:k, q:n.q, r:n.r, currentLevel:0, maxLevel:0, progress:0, revealed:true };
+        });
+    }
+    bots.push({
+      id: `bot-${i+1}`, type: EntityType.BOT, state: EntityState.IDLE, q: sp.q, r: sp.r,
+      playerLevel: 0, coins: GAME_CONFIG.INITIAL_COINS, moves: GAME_CONFIG.INITIAL_MOVES,
+      totalCoinsEarned: 0, recentUpgrades: [], movementQueue: [], attackTokens: GAME_CONFIG.CAPTURE.startingTokens,
+      memory: { lastPlayerPos: null, currentGoal: null, stuckCounter: 0 },
+      avatarColor: BOT_PALETTE[i % BOT_PALETTE.length],
+      recoveredCurrentHex: false
+    });
+  }
+  
+  const initialLog: LogEntry = {
+    id: 'init-0',
+    text: 'System Online. Mission Initialized.',
+    type: 'INFO',
+    source: 'SYSTEM',
+    timestamp: startTime
+  };
+
+  return {
+    stateVersion: 0,
+    tick: 0,
+    sessionId: rng.next().toString(36).substring(2, 15),
+    sessionStartTime: startTime,
+    seed,
+    rngState: rngHolder.rngState,
+    winCondition,
+    difficulty: winCondition.difficulty,
+    grid: initialGrid,
+    player: {
+      id: 'player-1', type: EntityType.PLAYER, state: EntityState.IDLE, q: 0, r: 0,
+      playerLevel: 0, coins: GAME_CONFIG.INITIAL_COINS, moves: GAME_CONFIG.INITIAL_MOVES,
+      totalCoinsEarned: 0, recentUpgrades: [], movementQueue: [], attackTokens: GAME_CONFIG.CAPTURE.startingTokens,
+      recoveredCurrentHex: false
+    },
+    bots,
+    currentTurn: 0,
+    messageLog: [initialLog],
+    botActivityLog: [], 
+    gameStatus: 'PLAYING',
+    lastBotActionTime: startTime,
+    isPlayerGrowing: false,
+    playerGrowthIntent: null,
+    growingBotIds: [],
+    telemetry: [],
+    effects: [] // Visual effects layer
+  };
+};
@@ -5,6 +5,7 @@ import { calculateBotMove } from '../../bot/calculateBotMove';
 import { ActionProcessor } from '../ActionProcessor';
 import { GAME_CONFIG } from '../../rules/config';
 import { getHexKey } from '../../services/hexUtils';
+import { SeededRandom } from '../SeededRandom';
 
 export class AiSystem implements System {
   private actionProcessor: ActionProcessor;
@@ -13,9 +14,7 @@ export class AiSystem implements System {
     this.actionProcessor = actionProcessor;
   }
 
-  update(state: SessionState, index: WorldIndex, events: GameEvent[]): void {
-    const now = Date.now();
-    
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], now: number): void {
     if (now - state.lastBotActionTime < GAME_CONFIG.BOT_ACTION_INTERVAL_MS) {
       return;
     }
@@ -25,7 +24,8 @@ export class AiSystem implements System {
     const tickObstacles = index.getOccupiedHexesList();
     const tickReservedKeys = new Set<string>();
 
-    const shuffledBots = [...state.bots].sort(() => Math.random() - 0.5);
+    const rng = new SeededRandom(state);
+    const shuffledBots = rng.shuffle(state.bots);
 
     for (const bot of shuffledBots) {
       if (bot.state !== EntityState.IDLE) continue;
@@ -38,8 +38,11 @@ export class AiSystem implements System {
         tickObstacles, 
         index, 
         state.stateVersion,
+        state.tick,
         state.difficulty,
-        tickReservedKeys 
+        rng,
+        tickReservedKeys,
+        this.actionProcessor.movementCost
       );
 
       // PERSIST MEMORY (Crucial for Master Goal logic)
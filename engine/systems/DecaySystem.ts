@@ -0,0 +1,86 @@
+import { System } from './System';
+import { GameEvent, Hex, SessionState, EntityType, Entity } from '../../types';
+import { WorldIndex } from '../WorldIndex';
+import { Ledger } from '../Ledger';
+import { GameEventFactory } from '../events';
+import { GAME_CONFIG } from '../../rules/config';
+import { getDecayRate, getDecayPoints, setDecayRate, decaySector, getUpkeep } from '../../rules/decay';
+
+/**
+ * DecaySystem - Maintenance cost of territory.
+ * High sectors left unattended lose current levels over time (faster the higher and the farther from their owner,
+ * slower near the owner's capital). Growing them back is free and pays income again (the RECOVERY growth rule).
+ * Optional upkeep bills owners per owned level; owners who can't pay decay faster until they do.
+ * A sector is only rewritten when its decay rate changes or it loses a level, not every tick.
+ */
+export class DecaySystem implements System {
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], now: number): void {
+    const cfg = GAME_CONFIG.DECAY;
+    const updates: Hex[] = [];
+
+    for (const owner of [state.player, ...state.bots]) {
+      const owned = index.getHexesOwnedBy(owner.id);
+      if (cfg.upkeepPerLevel > 0) this.billUpkeep(owner, owned, state, events, now);
+
+      for (const hex of owned) {
+        const rate = getDecayRate(hex, owner, state.grid);
+        if (rate !== (hex.decayRate || 0)) {
+          const rated = setDecayRate(hex, rate, state.tick);
+          if (rated.decayPoint! < cfg.pointsPerLevel) {
+            updates.push(rated);
+            continue;
+          }
+        } else if (rate <= 0 || getDecayPoints(hex, state.tick) < cfg.pointsPerLevel) {
+          continue;
+        }
+
+        const decayed = decaySector(hex);
+        updates.push(decayed);
+
+        const msg = `Sector (${hex.q},${hex.r}) decayed to L${decayed.currentLevel}`;
+        if (owner.type === EntityType.PLAYER) {
+          state.messageLog.unshift({
+            id: `decay-${now}-${hex.id}`,
+            text: msg,
+            type: 'WARN',
+            source: 'SYSTEM',
+            timestamp: now
+          });
+        }
+        events.push(GameEventFactory.create('SECTOR_DECAYED', now, msg, owner.id, { q: hex.q, r: hex.r, level: decayed.currentLevel }));
+      }
+    }
+
+    // Single grid copy for all sectors (Copy-On-Write)
+    index.setHexes(state, updates);
+  }
+
+  private billUpkeep(owner: Entity, owned: Hex[], state: SessionState, events: GameEvent[], now: number): void {
+    const timer = (owner.upkeepTimer || 0) + 1;
+    if (timer < GAME_CONFIG.DECAY.upkeepIntervalTicks) {
+      owner.upkeepTimer = timer;
+      return;
+    }
+    owner.upkeepTimer = 0;
+
+    const owed = getUpkeep(owned);
+    const paid = Math.min(owed, Math.max(0, owner.coins));
+    Ledger.coins(owner, -paid, 'UPKEEP', state.tick);
+
+    const wasInArrears = !!owner.inArrears;
+    owner.inArrears = paid < owed;
+    if (!owner.inArrears || wasInArrears) return;
+
+    const msg = `${owner.type === EntityType.PLAYER ? '[YOU]' : `[${owner.id}]`} Upkeep unpaid (${paid}/${owed}): sectors neglected`;
+    if (owner.type === EntityType.PLAYER) {
+      state.messageLog.unshift({
+        id: `upkeep-${now}`,
+        text: msg,
+        type: 'WARN',
+        source: 'SYSTEM',
+        timestamp: now
+      });
+    }
+    events.push(GameEventFactory.create('UPKEEP_UNPAID', now, msg, owner.id, { owed, paid }));
+  }
+}
@@ -0,0 +1,34 @@
+import { System } from './System';
+import { GameEvent, SessionState } from '../../types';
+import { WorldIndex } from '../WorldIndex';
+import { Ledger } from '../Ledger';
+import { GameEventFactory } from '../events';
+import { GAME_CONFIG } from '../../rules/config';
+import { getPayout } from '../../rules/economy';
+
+/**
+ * EconomySystem - Passive territory income.
+ * Every payout period each owner earns from all of its sectors by level, with diminishing returns for
+ * large empires. Fractions of a coin are carried over to the next payout.
+ */
+export class EconomySystem implements System {
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], now: number): void {
+    for (const owner of [state.player, ...state.bots]) {
+      const timer = (owner.incomeTimer || 0) + 1;
+      if (timer < GAME_CONFIG.ECONOMY.payoutIntervalTicks) {
+        owner.incomeTimer = timer;
+        continue;
+      }
+      owner.incomeTimer = 0;
+
+      const owned = index.getHexesOwnedBy(owner.id);
+      const earned = getPayout(owned) + (owner.incomeCarry || 0);
+      const amount = Math.floor(earned);
+      owner.incomeCarry = earned - amount;
+      if (amount <= 0) continue;
+
+      Ledger.coins(owner, amount, 'TERRITORY', state.tick);
+      events.push(GameEventFactory.create('INCOME_PAYOUT', now, undefined, owner.id, { amount, sectors: owned.length }));
+    }
+  }
+}
@@ -2,15 +2,19 @@
 
 
 import { System } from './System';
-import { GameState, GameEvent, EntityState, Entity, EntityType, SessionState } from '../../types';
+import { GameState, GameEvent, EntityState, Entity, EntityType, SessionState, Hex } from '../../types';
 import { WorldIndex } from '../WorldIndex';
-import { getHexKey } from '../../services/hexUtils';
+import { Ledger } from '../Ledger';
+import { getHexKey, getNeighbors } from '../../services/hexUtils';
 import { GameEventFactory } from '../events';
 import { checkGrowthCondition } from '../../rules/growth';
+import { checkCaptureCondition, getCaptureTicks, drainSector, captureSector } from '../../rules/capture';
+import { clearStructure, getCapitalLossPenalty } from '../../rules/structures';
+import { checkRepairCondition, getRepairCost, getDurability, repairSector } from '../../rules/repair';
 import { getLevelConfig, GAME_CONFIG, DIFFICULTY_SETTINGS } from '../../rules/config';
 
 export class GrowthSystem implements System {
-  update(state: SessionState, index: WorldIndex, events: GameEvent[]): void {
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], now: number): void {
     const entities = [state.player, ...state.bots];
     const newGrowingBotIds: string[] = [];
 
@@ -18,7 +22,7 @@ export class GrowthSystem implements System {
     const queueSize = DIFFICULTY_SETTINGS[state.difficulty]?.queueSize || 3;
 
     for (const entity of entities) {
-      const isGrowing = this.processEntity(entity, state, index, events, queueSize);
+      const isGrowing = this.processEntity(entity, state, index, events, queueSize, now);
       
       // Update tracking flags for state
       if (isGrowing) {
@@ -37,7 +41,7 @@ export class GrowthSystem implements System {
     state.growingBotIds = newGrowingBotIds;
   }
 
-  private processEntity(entity: Entity, state: SessionState, index: WorldIndex, events: GameEvent[], queueSize: number): boolean {
+  private processEntity(entity: Entity, state: SessionState, index: WorldIndex, events: GameEvent[], queueSize: number, now: number): boolean {
     const hasUpgradeCmd = entity.movementQueue.length > 0 && entity.movementQueue[0].upgrade;
     const queuedIntent = hasUpgradeCmd ? entity.movementQueue[0].intent : null;
     const key = getHexKey(entity.q, entity.r);
@@ -98,15 +102,28 @@ export class GrowthSystem implements System {
     }
 
     // Determine Effective Intent
-    let effectiveIntent: 'UPGRADE' | 'RECOVER' = 'RECOVER';
+    let effectiveIntent: 'UPGRADE' | 'RECOVER' | 'CAPTURE' | 'REPAIR' = 'RECOVER';
     
-    if (entity.type === EntityType.PLAYER) {
+    if (queuedIntent === 'CAPTURE' || queuedIntent === 'REPAIR') {
+        // Capture and repair are always explicit commands (player or bot)
+        effectiveIntent = queuedIntent;
+    } else if (entity.type === EntityType.PLAYER) {
         effectiveIntent = userIntentType || 'RECOVER';
     } else {
         // Bots: Use queued intent if available, otherwise default to UPGRADE unless queue logic forces otherwise
         effectiveIntent = queuedIntent || 'UPGRADE';
     }
 
+    // === BRANCH 0: HOSTILE CAPTURE (Timed) ===
+    if (effectiveIntent === 'CAPTURE') {
+        return this.processCapture(entity, hex, state, index, events, hasUpgradeCmd, now);
+    }
+
+    // === BRANCH 0b: DURABILITY REPAIR (Timed) ===
+    if (effectiveIntent === 'REPAIR') {
+        return this.processRepair(entity, hex, state, index, events, hasUpgradeCmd, now);
+    }
+
     // === BRANCH 1: RECOVERY ACTION (Timed) ===
     if (effectiveIntent === 'RECOVER') {
         if (entity.recoveredCurrentHex) {
@@ -126,26 +143,25 @@ export class GrowthSystem implements System {
         if (hex.progress + 1 >= needed) {
             // FINISH RECOVERY
             const coinReward = (hex.maxLevel || 0) * 5 + 5; // Base + Scale
-            entity.moves += 1;
-            entity.coins += coinReward;
-            entity.totalCoinsEarned += coinReward;
+            Ledger.moves(entity, 1, 'RECOVERY', state.tick, hex);
+            Ledger.coins(entity, coinReward, 'RECOVERY', state.tick, hex);
             entity.recoveredCurrentHex = true; // Mark used
 
             const prefix = entity.type === EntityType.PLAYER ? "[YOU]" : `[${entity.id}]`;
             const msg = `${prefix} Recovered 1 Move + ${coinReward} Credits`;
             
             state.messageLog.unshift({
-                id: `rec-${Date.now()}-${entity.id}`,
+                id: `rec-${now}-${entity.id}`,
                 text: msg,
                 type: 'SUCCESS',
                 source: entity.id,
-                timestamp: Date.now()
+                timestamp: now
             });
             
-            events.push(GameEventFactory.create('RECOVERY_USED', msg, entity.id));
+            events.push(GameEventFactory.create('RECOVERY_USED', now, msg, entity.id));
             
             // Reset Progress and Stop (Copy-On-Write)
-            state.grid = { ...state.grid, [key]: { ...hex, progress: 0 } };
+            index.setHex(state, { ...hex, progress: 0 });
             
             // For Player, toggle off. For Bot, they will rethink next tick.
             if (entity.type === EntityType.PLAYER) {
@@ -156,7 +172,7 @@ export class GrowthSystem implements System {
             return false;
         } else {
             // Tick Progress (Copy-On-Write)
-            state.grid = { ...state.grid, [key]: { ...hex, progress: hex.progress + 1 } };
+            index.setHex(state, { ...hex, progress: hex.progress + 1 });
             return true;
         }
     }
@@ -177,14 +193,14 @@ export class GrowthSystem implements System {
       if (entity.type === EntityType.PLAYER) {
          const msg = condition.reason || "Growth Conditions Not Met";
          state.messageLog.unshift({
-             id: `denied-${Date.now()}`,
+             id: `denied-${now}`,
              text: `Growth Failed: ${msg}`,
              type: 'WARN',
              source: 'SYSTEM',
-             timestamp: Date.now()
+             timestamp: now
          });
          
-         events.push(GameEventFactory.create('ACTION_DENIED', msg, entity.id));
+         events.push(GameEventFactory.create('ACTION_DENIED', now, msg, entity.id));
          state.isPlayerGrowing = false; 
       }
       return false;
@@ -208,10 +224,11 @@ export class GrowthSystem implements System {
       if (targetLevel > hex.maxLevel) {
         newMaxLevel = targetLevel;
         didMaxIncrease = true;
+        const isNewRank = targetLevel > entity.playerLevel;
         entity.playerLevel = Math.max(entity.playerLevel, targetLevel);
         
         // DEDUCT UPGRADE COST
-        entity.coins -= config.cost;
+        Ledger.coins(entity, -config.cost, 'UPGRADE', state.tick, hex);
 
         if (targetLevel === 1) {
              // ACQUISITION
@@ -225,14 +242,14 @@ export class GrowthSystem implements System {
              
              const msg = `${prefix} Sector L1 Acquired (Cost: ${config.cost})`;
              state.messageLog.unshift({
-                id: `acq-${Date.now()}-${entity.id}`,
+                id: `acq-${now}-${entity.id}`,
                 text: msg,
                 type: 'SUCCESS',
                 source: entity.id,
-                timestamp: Date.now()
+                timestamp: now
              });
              
-             events.push(GameEventFactory.create('SECTOR_ACQUIRED', msg, entity.id));
+             events.push(GameEventFactory.create('SECTOR_ACQUIRED', now, msg, entity.id));
         } else {
              // LEVEL UP
              // When upgrading beyond L1 (to L2+), remove durability limitation
@@ -241,14 +258,17 @@ export class GrowthSystem implements System {
              const msg = `${prefix} Reached Rank L${targetLevel} (Cost: ${config.cost})`;
              
              state.messageLog.unshift({
-                id: `lvl-${Date.now()}-${entity.id}`,
+                id: `lvl-${now}-${entity.id}`,
                 text: msg,
                 type: 'SUCCESS',
                 source: entity.id,
-                timestamp: Date.now()
+                timestamp: now
              });
 
-             events.push(GameEventFactory.create('LEVEL_UP', msg, entity.id));
+             events.push(GameEventFactory.create('LEVEL_UP', now, msg, entity.id));
+
+             // New rank, new attack tokens
+             if (isNewRank) entity.attackTokens = (entity.attackTokens || 0) + GAME_CONFIG.CAPTURE.tokensPerRankUp;
 
              // CONSUME CYCLE POINTS
              entity.recentUpgrades = [];
@@ -256,22 +276,24 @@ export class GrowthSystem implements System {
       }
 
       // Rewards
-      entity.coins += config.income;
-      entity.totalCoinsEarned += config.income;
-      entity.moves += 1;
+      Ledger.coins(entity, config.income, 'GROWTH', state.tick, hex);
+      Ledger.moves(entity, 1, 'GROWTH', state.tick, hex);
       
+      // Barriers grow with their sector
+      const structureHp = didMaxIncrease && hex.structureType === 'BARRIER'
+          ? (hex.structureHp || 0) + GAME_CONFIG.STRUCTURES.BARRIER.hpPerLevel
+          : hex.structureHp;
+
       // Update Hex (Copy-On-Write)
-      state.grid = { 
-          ...state.grid, 
-          [key]: { 
-              ...hex, 
-              currentLevel: targetLevel, 
-              maxLevel: newMaxLevel, 
-              progress: 0,
-              ownerId: newOwnerId,
-              durability: newDurability
-          }
-      };
+      index.setHex(state, {
+          ...hex, 
+          currentLevel: targetLevel, 
+          maxLevel: newMaxLevel, 
+          progress: 0,
+          ownerId: newOwnerId,
+          durability: newDurability,
+          structureHp
+      });
       
       let shouldContinue = targetLevel < newMaxLevel;
       
@@ -293,8 +315,132 @@ export class GrowthSystem implements System {
 
     } else {
       // Tick Progress (Copy-On-Write)
-      state.grid = { ...state.grid, [key]: { ...hex, progress: hex.progress + 1 } };
+      index.setHex(state, { ...hex, progress: hex.progress + 1 });
+      return true;
+    }
+  }
+
+  /**
+   * Drains a rival sector one level per capture period (one attack token each) and flips it at L1.
+   * The owner standing next to the sector breaks off the capture.
+   */
+  private processCapture(entity: Entity, hex: Hex, state: SessionState, index: WorldIndex, events: GameEvent[], hasUpgradeCmd: boolean, now: number): boolean {
+    const prefix = entity.type === EntityType.PLAYER ? "[YOU]" : `[${entity.id}]`;
+    const stop = (reason?: string) => this.stopChannel(entity, state, events, hasUpgradeCmd, now, 'Capture', reason);
+
+    const condition = checkCaptureCondition(hex, entity);
+    if (!condition.canCapture) return stop(condition.reason);
+
+    const ownerId = hex.ownerId!;
+    const defended = getNeighbors(hex.q, hex.r).some(n => index.getEntityAt(n.q, n.r)?.id === ownerId);
+    if (defended) return stop('SECTOR DEFENDED');
+
+    const points = (hex.attackPoint || 0) + 1;
+    if (points < getCaptureTicks(hex, state.grid)) {
+      index.setHex(state, { ...hex, attackPoint: points });
+      return true;
+    }
+
+    entity.attackTokens = (entity.attackTokens || 0) - 1;
+
+    // DRAIN
+    if (hex.maxLevel > 1) {
+      const drained = drainSector(hex);
+      index.setHex(state, drained);
+
+      const msg = `${prefix} Drained sector (${hex.q},${hex.r}) of ${ownerId} to L${drained.maxLevel}`;
+      state.messageLog.unshift({
+        id: `drain-${now}-${entity.id}`,
+        text: msg,
+        type: ownerId === state.player.id ? 'WARN' : 'INFO',
+        source: entity.id,
+        timestamp: now
+      });
+      events.push(GameEventFactory.create('SECTOR_DRAINED', now, msg, entity.id, { q: hex.q, r: hex.r, ownerId, level: drained.maxLevel }));
+
+      return entity.attackTokens > 0 ? true : stop();
+    }
+
+    // FLIP
+    let captured = captureSector(hex, entity.id);
+    if (hex.structureType === 'CAPITAL') {
+      // A capital does not change hands
+      captured = clearStructure(captured);
+      const owner = ownerId === state.player.id ? state.player : state.bots.find(b => b.id === ownerId);
+      const penalty = owner ? getCapitalLossPenalty(owner) : 0;
+      if (owner) Ledger.coins(owner, -penalty, 'CAPITAL_LOST', state.tick, hex);
+      const lostMsg = `${prefix} Destroyed a CAPITAL at (${hex.q},${hex.r}) (${ownerId} lost ${penalty} credits)`;
+      events.push(GameEventFactory.create('STRUCTURE_DESTROYED', now, lostMsg, ownerId, { q: hex.q, r: hex.r, structureType: 'CAPITAL' }));
+    }
+    index.setHex(state, captured);
+
+    const msg = `${prefix} Captured sector (${hex.q},${hex.r}) from ${ownerId === state.player.id ? 'YOU' : ownerId}`;
+    state.messageLog.unshift({
+      id: `capture-${now}-${entity.id}`,
+      text: msg,
+      type: entity.type === EntityType.PLAYER ? 'SUCCESS' : (ownerId === state.player.id ? 'WARN' : 'INFO'),
+      source: entity.id,
+      timestamp: now
+    });
+    events.push(GameEventFactory.create('SECTOR_ACQUIRED', now, msg, entity.id));
+    events.push(GameEventFactory.create('SECTOR_CAPTURED', now, msg, entity.id, { q: hex.q, r: hex.r, previousOwnerId: ownerId }));
+
+    return stop();
+  }
+
+  /**
+   * Restores one durability point of an own L1 sector per repair period, paying for each point as it lands.
+   * Stops once the sector is whole or the next point is unaffordable.
+   */
+  private processRepair(entity: Entity, hex: Hex, state: SessionState, index: WorldIndex, events: GameEvent[], hasUpgradeCmd: boolean, now: number): boolean {
+    const payWith = entity.movementQueue[0]?.payWith || 'COINS';
+    const condition = checkRepairCondition(hex, entity, payWith);
+    if (!condition.canRepair) return this.stopChannel(entity, state, events, hasUpgradeCmd, now, 'Repair', condition.reason);
+
+    if (hex.progress + 1 < GAME_CONFIG.REPAIR.ticksPerPoint) {
+      index.setHex(state, { ...hex, progress: hex.progress + 1 });
       return true;
     }
+
+    const cost = getRepairCost(payWith);
+    Ledger.coins(entity, -cost.coins, 'REPAIR', state.tick, hex);
+    Ledger.moves(entity, -cost.moves, 'REPAIR', state.tick, hex);
+    const repaired = repairSector(hex);
+    index.setHex(state, repaired);
+
+    const durability = getDurability(repaired);
+    const prefix = entity.type === EntityType.PLAYER ? "[YOU]" : `[${entity.id}]`;
+    const msg = `${prefix} Repaired sector (${hex.q},${hex.r}) to ${durability}/${GAME_CONFIG.L1_HEX_MAX_DURABILITY}`;
+    events.push(GameEventFactory.create('SECTOR_REPAIRED', now, msg, entity.id, { q: hex.q, r: hex.r, durability }));
+
+    if (durability < GAME_CONFIG.L1_HEX_MAX_DURABILITY) return true;
+
+    state.messageLog.unshift({
+      id: `repair-${now}-${entity.id}`,
+      text: msg,
+      type: 'SUCCESS',
+      source: entity.id,
+      timestamp: now
+    });
+    return this.stopChannel(entity, state, events, hasUpgradeCmd, now, 'Repair');
+  }
+
+  /**
+   * Ends an explicit channel (capture, repair). With a reason, the player is told why it failed.
+   */
+  private stopChannel(entity: Entity, state: SessionState, events: GameEvent[], hasUpgradeCmd: boolean, now: number, label: string, reason?: string): boolean {
+    if (hasUpgradeCmd) entity.movementQueue.shift();
+    entity.state = EntityState.IDLE;
+    if (reason && entity.type === EntityType.PLAYER) {
+      state.messageLog.unshift({
+        id: `denied-${now}`,
+        text: `${label} Failed: ${reason}`,
+        type: 'WARN',
+        source: 'SYSTEM',
+        timestamp: now
+      });
+      events.push(GameEventFactory.create('ACTION_DENIED', now, reason, entity.id));
+    }
+    return false;
   }
-}
\ No newline at end of file
+}
@@ -4,20 +4,36 @@
 import { System } from './System';
 import { GameState, GameEvent, EntityState, Entity, SessionState, Hex, EntityType } from '../../types';
 import { WorldIndex } from '../WorldIndex';
+import { Ledger } from '../Ledger';
 import { getHexKey, getNeighbors } from '../../services/hexUtils';
 import { GameEventFactory } from '../events';
 import { GAME_CONFIG } from '../../rules/config';
+import { isHostileBarrier } from '../../rules/movement';
+import { triggersTrap, getTrapEffect } from '../../rules/traps';
+
+// Sprung trap locations a bot remembers
+const KNOWN_TRAPS_LIMIT = 10;
 
 export class MovementSystem implements System {
-  update(state: SessionState, index: WorldIndex, events: GameEvent[]): void {
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], now: number): void {
     const entities = [state.player, ...state.bots];
 
     for (const entity of entities) {
-      this.processEntity(entity, state, index, events);
+      this.processEntity(entity, state, index, events, now);
     }
   }
 
-  private processEntity(entity: Entity, state: SessionState, index: WorldIndex, events: GameEvent[]) {
+  private processEntity(entity: Entity, state: SessionState, index: WorldIndex, events: GameEvent[], now: number) {
+    // Trap lock countdown
+    if (entity.state === EntityState.LOCKED) {
+      entity.lockedTicks = (entity.lockedTicks || 0) - 1;
+      if (entity.lockedTicks <= 0) {
+        entity.state = EntityState.IDLE;
+        entity.lockedTicks = undefined;
+      }
+      return;
+    }
+
     // FSM Guard: Only IDLE or MOVING allowed
     if (entity.state !== EntityState.IDLE && entity.state !== EntityState.MOVING) {
       return;
@@ -29,7 +45,7 @@ export class MovementSystem implements System {
          entity.state = EntityState.IDLE;
          // Reset ability usage when arriving at destination
          entity.recoveredCurrentHex = false;
-         events.push(GameEventFactory.create('MOVE_COMPLETE', undefined, entity.id));
+         events.push(GameEventFactory.create('MOVE_COMPLETE', now, undefined, entity.id));
       }
       return;
     }
@@ -37,7 +53,6 @@ export class MovementSystem implements System {
     // --- ANIMATION THROTTLE ---
     // If the entity is currently moving, ensure we wait for the animation to finish
     // before logically teleporting to the next hex.
-    const now = Date.now();
     if (entity.state === EntityState.MOVING) {
         const lastMove = entity.lastMoveTime || 0;
         if (now - lastMove < GAME_CONFIG.MOVEMENT_LOGIC_INTERVAL_MS) {
@@ -64,18 +79,36 @@ export class MovementSystem implements System {
           
           // Log collision as warning
           state.messageLog.unshift({
-             id: `col-${Date.now()}-${entity.id}`,
+             id: `col-${now}-${entity.id}`,
              text: msg,
              type: 'WARN',
              source: entity.id,
-             timestamp: Date.now()
+             timestamp: now
           });
           
-          events.push(GameEventFactory.create('ACTION_DENIED', msg, entity.id));
+          events.push(GameEventFactory.create('ACTION_DENIED', now, msg, entity.id));
           return;
       }
     }
 
+    // Barrier raised on the route after it was planned
+    if (isHostileBarrier(state.grid[getHexKey(nextStep.q, nextStep.r)], entity.id)) {
+      entity.movementQueue = [];
+      entity.state = EntityState.IDLE;
+
+      const msg = `Path Blocked by BARRIER at (${nextStep.q},${nextStep.r})`;
+      state.messageLog.unshift({
+         id: `bar-${now}-${entity.id}`,
+         text: msg,
+         type: 'WARN',
+         source: entity.id,
+         timestamp: now
+      });
+
+      events.push(GameEventFactory.create('ACTION_DENIED', now, msg, entity.id));
+      return;
+    }
+
     // 3. Execute Move
     entity.movementQueue.shift();
 
@@ -104,22 +137,28 @@ export class MovementSystem implements System {
                 currentLevel: 0,
                 progress: 0,
                 ownerId: undefined,
-                durability: 0,
-                structureType: 'VOID' // Mark as hole
+                durability: undefined, // Durability only applies to standing L1 hexes
+                structureType: 'VOID', // Mark as hole (buries any structure)
+                structureHp: undefined,
+                mineDueAt: undefined,
+                pressureTimer: undefined,
+                raidTimer: undefined,
+                collapsedAt: state.tick,
+                trap: null
             };
             
-            state.grid = { ...state.grid, [oldHexKey]: collapsedHex };
+            index.setHex(state, collapsedHex);
             
-            events.push(GameEventFactory.create('HEX_COLLAPSE', undefined, entity.id, { q: oldHex.q, r: oldHex.r }));
+            events.push(GameEventFactory.create('HEX_COLLAPSE', now, undefined, entity.id, { q: oldHex.q, r: oldHex.r }));
             
             // Only log significant events to avoid spam
             if (entity.type === EntityType.PLAYER) {
                 state.messageLog.unshift({
-                    id: `collapse-${Date.now()}`,
+                    id: `collapse-${now}`,
                     text: `Sector Collapsed Behind You!`,
                     type: 'WARN',
                     source: 'SYSTEM',
-                    timestamp: Date.now()
+                    timestamp: now
                 });
             }
         }
@@ -135,7 +174,7 @@ export class MovementSystem implements System {
         const newDurability = currentDurability - 1;
         
         // Update durability
-        state.grid = { ...state.grid, [newHexKey]: { ...newHex, durability: newDurability } };
+        index.setHex(state, { ...newHex, durability: newDurability });
 
         // Visual/Audio Feedback if it just broke (reached 0), but DON'T collapse yet
         if (newDurability <= 0 && currentDurability > 0) {
@@ -145,7 +184,7 @@ export class MovementSystem implements System {
 
     // Fog of War / Exploration (Copy-On-Write Optimization)
     const neighbors = getNeighbors(entity.q, entity.r);
-    const updates: Record<string, Hex> = {};
+    const updates: Hex[] = [];
     
     [...neighbors, { q: entity.q, r: entity.r }].forEach(n => {
       const k = getHexKey(n.q, n.r);
@@ -154,20 +193,25 @@ export class MovementSystem implements System {
       
       if (!hex) {
         // Create new hex
-        updates[k] = { 
+        updates.push({ 
           id: k, q: n.q, r: n.r, 
           currentLevel: 0, maxLevel: 0, progress: 0, 
           revealed: true 
-        };
+        });
       } else if (!hex.revealed) {
         // Update existing hex only if not revealed
-        updates[k] = { ...hex, revealed: true };
+        updates.push({ ...hex, revealed: true });
       }
     });
 
     // BATCH UPDATE
-    if (Object.keys(updates).length > 0) {
-        state.grid = { ...state.grid, ...updates };
+    index.setHexes(state, updates);
+
+    // --- TRAPS (ON ENTRY) ---
+    const enteredHex = state.grid[newHexKey];
+    if (triggersTrap(enteredHex, entity)) {
+        this.springTrap(entity, enteredHex, state, index, events, now);
+        return;
     }
 
     // 4. Update State Immediately
@@ -181,9 +225,41 @@ export class MovementSystem implements System {
         // Actually, we can just set to IDLE.
         entity.state = EntityState.IDLE;
         entity.recoveredCurrentHex = false;
-        events.push(GameEventFactory.create('MOVE_COMPLETE', undefined, entity.id));
+        events.push(GameEventFactory.create('MOVE_COMPLETE', now, undefined, entity.id));
     } else {
         entity.state = EntityState.MOVING;
     }
   }
-}
\ No newline at end of file
+
+  private springTrap(entity: Entity, hex: Hex, state: SessionState, index: WorldIndex, events: GameEvent[], now: number) {
+    const effect = getTrapEffect(hex.trap!.potency ?? GAME_CONFIG.TRAP.potency, entity);
+    Ledger.moves(entity, -effect.movesLost, 'TRAP_SPRUNG', state.tick, hex);
+    Ledger.coins(entity, -effect.coinsLost, 'TRAP_SPRUNG', state.tick, hex);
+    entity.movementQueue = [];
+    entity.state = EntityState.LOCKED;
+    entity.lockedTicks = effect.lockTicks;
+    entity.recoveredCurrentHex = false;
+
+    // Single use
+    index.setHex(state, { ...hex, trap: null });
+
+    if (entity.memory) {
+      const known = (entity.memory.knownTraps || []).filter(k => k !== hex.id);
+      entity.memory.knownTraps = [...known, hex.id].slice(-KNOWN_TRAPS_LIMIT);
+    }
+
+    const prefix = entity.type === EntityType.PLAYER ? '[YOU]' : `[${entity.id}]`;
+    const msg = `${prefix} Triggered a trap at (${hex.q},${hex.r}): -${effect.movesLost} moves, -${effect.coinsLost} credits`;
+    state.messageLog.unshift({
+      id: `trap-${now}-${entity.id}`,
+      text: msg,
+      type: entity.type === EntityType.PLAYER ? 'WARN' : 'INFO',
+      source: entity.id,
+      timestamp: now
+    });
+
+    events.push(GameEventFactory.create('TRAP_TRIGGERED', now, msg, entity.id, {
+      q: hex.q, r: hex.r, ownerId: hex.ownerId, ...effect
+    }));
+  }
+}
@@ -0,0 +1,120 @@
+import { System } from './System';
+import { GameEvent, Hex, SessionState, EntityType, Entity, StructureType } from '../../types';
+import { WorldIndex } from '../WorldIndex';
+import { Ledger } from '../Ledger';
+import { GameEventFactory } from '../events';
+import { GAME_CONFIG } from '../../rules/config';
+import { getNeighbors } from '../../services/hexUtils';
+import { clearStructure, getStructureMaxHp, getStructureDamage, getCapitalLossPenalty } from '../../rules/structures';
+
+// Defense bonuses make fractional damage: repeated 1/3 hits never sum to exactly 0
+const HP_EPSILON = 1e-6;
+
+/**
+ * StructureSystem - Runs built structures.
+ * Mines pay their owner every mine tick and lose HP instead while a hostile unit stands on them.
+ * Barriers lose HP while hostile units press against them from adjacent hexes.
+ * Capitals lose HP while a hostile unit stands on them; losing one costs the owner coins (or the game).
+ * Damage is reduced near the owner's capital. A structure at 0 HP is destroyed (the sector stays owned).
+ */
+export class StructureSystem implements System {
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], now: number): void {
+    const entities = [state.player, ...state.bots];
+    const updates: Hex[] = [];
+
+    for (const mine of index.getStructures('MINE')) {
+      const next = this.updateMine(mine, entities, state, index, events, now);
+      if (next !== mine) updates.push(next);
+    }
+    for (const barrier of index.getStructures('BARRIER')) {
+      const next = this.updateBarrier(barrier, entities, state, index, events, now);
+      if (next !== barrier) updates.push(next);
+    }
+    for (const capital of index.getStructures('CAPITAL')) {
+      const next = this.updateCapital(capital, entities, state, index, events, now);
+      if (next !== capital) updates.push(next);
+    }
+
+    // Single grid copy for all structures (Copy-On-Write)
+    index.setHexes(state, updates);
+  }
+
+  private updateMine(mine: Hex, entities: Entity[], state: SessionState, index: WorldIndex, events: GameEvent[], now: number): Hex {
+    const cfg = GAME_CONFIG.STRUCTURES.MINE;
+    // The mine is only rewritten when first seen and when it pays out or is raided
+    const due = mine.mineDueAt ?? state.tick + cfg.incomeIntervalTicks - 1;
+    if (state.tick < due) return mine.mineDueAt === undefined ? { ...mine, mineDueAt: due } : mine;
+    const next = state.tick + cfg.incomeIntervalTicks;
+
+    const occupant = index.getEntityAt(mine.q, mine.r);
+    if (occupant && occupant.id !== mine.ownerId) {
+      // RAID
+      const hp = this.remainingHp(mine, state, cfg.raidDamage);
+      if (hp > HP_EPSILON) return { ...mine, structureHp: hp, mineDueAt: next };
+      return this.destroy(mine, occupant, entities, state, events, now);
+    }
+
+    // PAYOUT
+    const owner = entities.find(e => e.id === mine.ownerId);
+    if (owner) Ledger.coins(owner, cfg.incomePerTick, 'MINE', state.tick, mine);
+    return { ...mine, mineDueAt: next };
+  }
+
+  private updateBarrier(barrier: Hex, entities: Entity[], state: SessionState, index: WorldIndex, events: GameEvent[], now: number): Hex {
+    const cfg = GAME_CONFIG.STRUCTURES.BARRIER;
+    const attackers = getNeighbors(barrier.q, barrier.r)
+      .map(n => index.getEntityAt(n.q, n.r))
+      .filter((e): e is Entity => !!e && e.id !== barrier.ownerId);
+
+    // Wear only accumulates under pressure
+    if (attackers.length === 0) return barrier.pressureTimer ? { ...barrier, pressureTimer: 0 } : barrier;
+
+    const timer = (barrier.pressureTimer || 0) + 1;
+    if (timer < cfg.pressureIntervalTicks) return { ...barrier, pressureTimer: timer };
+
+    const hp = this.remainingHp(barrier, state, cfg.pressureDamage * attackers.length);
+    if (hp > HP_EPSILON) return { ...barrier, structureHp: hp, pressureTimer: 0 };
+    return this.destroy(barrier, attackers[0], entities, state, events, now);
+  }
+
+  private updateCapital(capital: Hex, entities: Entity[], state: SessionState, index: WorldIndex, events: GameEvent[], now: number): Hex {
+    const cfg = GAME_CONFIG.STRUCTURES.CAPITAL;
+    const occupant = index.getEntityAt(capital.q, capital.r);
+
+    // Occupation only
+    if (!occupant || occupant.id === capital.ownerId) return capital.raidTimer ? { ...capital, raidTimer: 0 } : capital;
+
+    const timer = (capital.raidTimer || 0) + 1;
+    if (timer < cfg.raidIntervalTicks) return { ...capital, raidTimer: timer };
+
+    const hp = this.remainingHp(capital, state, cfg.raidDamage);
+    if (hp > HP_EPSILON) return { ...capital, structureHp: hp, raidTimer: 0 };
+    return this.destroy(capital, occupant, entities, state, events, now);
+  }
+
+  private remainingHp(hex: Hex, state: SessionState, damage: number): number {
+    return (hex.structureHp ?? getStructureMaxHp(hex)) - getStructureDamage(hex, state.grid, damage);
+  }
+
+  private destroy(hex: Hex, destroyer: Entity, entities: Entity[], state: SessionState, events: GameEvent[], now: number): Hex {
+    const structureType = hex.structureType as StructureType;
+    const owner = entities.find(e => e.id === hex.ownerId);
+    let msg = `${destroyer.type === EntityType.PLAYER ? '[YOU]' : `[${destroyer.id}]`} Destroyed a ${structureType} at (${hex.q},${hex.r})`;
+
+    if (structureType === 'CAPITAL' && owner) {
+      const penalty = getCapitalLossPenalty(owner);
+      Ledger.coins(owner, -penalty, 'CAPITAL_LOST', state.tick, hex);
+      msg += ` (${owner.type === EntityType.PLAYER ? 'You' : owner.id} lost ${penalty} credits)`;
+    }
+
+    state.messageLog.unshift({
+      id: `structure-lost-${now}-${hex.id}`,
+      text: msg,
+      type: owner?.type === EntityType.PLAYER ? 'WARN' : 'INFO',
+      source: destroyer.id,
+      timestamp: now
+    });
+    events.push(GameEventFactory.create('STRUCTURE_DESTROYED', now, msg, hex.ownerId, { q: hex.q, r: hex.r, structureType }));
+    return clearStructure(hex);
+  }
+}
@@ -9,6 +9,13 @@ export interface System {
    * @param state The mutable game state.
    * @param index The spatial index for queries.
    * @param events A list to push new game events into.
+   * @param now Tick timestamp sampled from the engine's Clock. Never use Date.now() in systems.
    */
-  update(state: SessionState, index: WorldIndex, events: GameEvent[]): void;
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], now: number): void;
+
+  /**
+   * Optional per-system settings, supplied through SystemPipeline.register/configure.
+   * Implementations should merge the given keys over their defaults.
+   */
+  configure?(config: Record<string, unknown>): void;
 }
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { SessionState } from '../../types';
+import { System } from './System';
+
+export interface SystemRegistrationOptions {
+  // Insert relative to an existing system (default: append)
+  before?: string;
+  after?: string;
+  enabled?: boolean;
+  // Limits the system to certain sessions / game modes (e.g. by difficulty)
+  enabledWhen?: (state: SessionState) => boolean;
+  config?: Record<string, unknown>;
+}
+
+interface SystemEntry {
+  id: string;
+  system: System;
+  enabled: boolean;
+  enabledWhen?: (state: SessionState) => boolean;
+}
+
+// Ids of the systems GameEngine registers by default
+export const CORE_SYSTEMS = {
+  GROWTH: 'growth',
+  AI: 'ai',
+  MOVEMENT: 'movement',
+  STRUCTURES: 'structures',
+  ECONOMY: 'economy',
+  DECAY: 'decay',
+  TERRAIN: 'terrain',
+  VICTORY: 'victory'
+} as const;
+
+/**
+ * SystemPipeline - Ordered registry of the Systems GameEngine runs every tick.
+ * New mechanics ship as separate Systems registered here instead of edits to the engine core.
+ */
+export class SystemPipeline {
+  private entries: SystemEntry[] = [];
+
+  public register(id: string, system: System, options: SystemRegistrationOptions = {}): this {
+    if (this.has(id)) throw new Error(`System "${id}" is already registered`);
+
+    const entry: SystemEntry = {
+      id,
+      system,
+      enabled: options.enabled !== false,
+      enabledWhen: options.enabledWhen
+    };
+
+    if (options.config) this.applyConfig(entry, options.config);
+    this.entries.splice(this.resolveInsertIndex(options), 0, entry);
+    return this;
+  }
+
+  public unregister(id: string): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(e => e.id !== id);
+    return this.entries.length !== before;
+  }
+
+  /**
+   * Reorders an already registered system.
+   */
+  public move(id: string, position: { before?: string; after?: string }): this {
+    const entry = this.getEntry(id);
+    this.entries = this.entries.filter(e => e !== entry);
+    this.entries.splice(this.resolveInsertIndex(position), 0, entry);
+    return this;
+  }
+
+  public setEnabled(id: string, enabled: boolean): this {
+    this.getEntry(id).enabled = enabled;
+    return this;
+  }
+
+  public configure(id: string, config: Record<string, unknown>): this {
+    this.applyConfig(this.getEntry(id), config);
+    return this;
+  }
+
+  public has(id: string): boolean {
+    return this.entries.some(e => e.id === id);
+  }
+
+  public get<T extends System>(id: string): T | undefined {
+    return this.entries.find(e => e.id === id)?.system as T | undefined;
+  }
+
+  public getIds(): string[] {
+    return this.entries.map(e => e.id);
+  }
+
+  /**
+   * Systems to run for this state, in pipeline order.
+   */
+  public getActive(state: SessionState): System[] {
+    return this.getActiveEntries(state).map(e => e.system);
+  }
+
+  public getActiveEntries(state: SessionState): { id: string; system: System }[] {
+    return this.entries
+      .filter(e => e.enabled && (!e.enabledWhen || e.enabledWhen(state)))
+      .map(e => ({ id: e.id, system: e.system }));
+  }
+
+  public clear() {
+    this.entries = [];
+  }
+
+  private getEntry(id: string): SystemEntry {
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry) throw new Error(`System "${id}" is not registered`);
+    return entry;
+  }
+
+  private applyConfig(entry: SystemEntry, config: Record<string, unknown>) {
+    if (!entry.system.configure) throw new Error(`System "${entry.id}" does not accept config`);
+    entry.system.configure(config);
+  }
+
+  private resolveInsertIndex(position: { before?: string; after?: string }): number {
+    if (position.before) {
+      const i = this.entries.findIndex(e => e.id === position.before);
+      if (i < 0) throw new Error(`System "${position.before}" is not registered`);
+      return i;
+    }
+    if (position.after) {
+      const i = this.entries.findIndex(e => e.id === position.after);
+      if (i < 0) throw new Error(`System "${position.after}" is not registered`);
+      return i + 1;
+    }
+    return this.entries.length;
+  }
+}
@@ -0,0 +1,31 @@
+import { System } from './System';
+import { GameEvent, Hex, SessionState } from '../../types';
+import { WorldIndex } from '../WorldIndex';
+import { GameEventFactory } from '../events';
+import { getRegenerationTicksLeft, regenerateSector } from '../../rules/terrain';
+
+/**
+ * TerrainSystem - Heals the map.
+ * Collapsed (VOID) hexes, bridged or not, refill as neutral L0 ground once their regeneration time has passed
+ * since the collapse, so long games do not end up carved into islands. Holes are only written when they change.
+ */
+export class TerrainSystem implements System {
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], now: number): void {
+    const updates: Hex[] = [];
+
+    for (const hole of [...index.getStructures('VOID'), ...index.getStructures('BRIDGE')]) {
+      // Holes from before collapse stamps start counting now
+      if (hole.collapsedAt === undefined) {
+        updates.push({ ...hole, collapsedAt: state.tick });
+        continue;
+      }
+      if (getRegenerationTicksLeft(hole, state.tick) > 0) continue;
+
+      updates.push(regenerateSector(hole));
+      events.push(GameEventFactory.create('VOID_REGENERATED', now, undefined, undefined, { q: hole.q, r: hole.r }));
+    }
+
+    // Single grid copy for all changed holes (Copy-On-Write)
+    index.setHexes(state, updates);
+  }
+}
@@ -2,9 +2,10 @@ import { System } from './System';
 import { GameState, GameEvent, EntityType, LeaderboardEntry, SessionState } from '../../types';
 import { WorldIndex } from '../WorldIndex';
 import { GameEventFactory } from '../events';
+import { GAME_CONFIG } from '../../rules/config';
 
 export class VictorySystem implements System {
-  update(state: SessionState, index: WorldIndex, events: GameEvent[]): void {
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], now: number): void {
     if (state.gameStatus !== 'PLAYING' || !state.winCondition) {
         return;
     }
@@ -22,14 +23,14 @@ export class VictorySystem implements System {
         const msg = 'Mission Accomplished';
         
         state.messageLog.unshift({
-            id: `win-${Date.now()}`,
+            id: `win-${now}`,
             text: msg,
             type: 'SUCCESS',
             source: 'SYSTEM',
-            timestamp: Date.now()
+            timestamp: now
         });
 
-        events.push(GameEventFactory.create('VICTORY', msg));
+        events.push(GameEventFactory.create('VICTORY', now, msg));
         gameOver = true;
         isVictory = true;
     } else {
@@ -38,19 +39,24 @@ export class VictorySystem implements System {
            (b.playerLevel >= targetLevel) && (b.totalCoinsEarned >= targetCoins)
         );
 
-        if (bWin) {
+        // Alternate defeat: capital destroyed this tick (StructureSystem runs first)
+        const capitalLost = GAME_CONFIG.STRUCTURES.CAPITAL.lossIsDefeat && events.some(e =>
+           e.type === 'STRUCTURE_DESTROYED' && e.entityId === state.player.id && e.data?.structureType === 'CAPITAL'
+        );
+
+        if (bWin || capitalLost) {
             state.gameStatus = 'DEFEAT';
-            const msg = 'Mission Failed: Rival completed objective';
+            const msg = bWin ? 'Mission Failed: Rival completed objective' : 'Mission Failed: Capital lost';
             
             state.messageLog.unshift({
-                id: `lose-${Date.now()}`,
+                id: `lose-${now}`,
                 text: msg,
                 type: 'ERROR',
                 source: 'SYSTEM',
-                timestamp: Date.now()
+                timestamp: now
             });
             
-            events.push(GameEventFactory.create('DEFEAT', msg));
+            events.push(GameEventFactory.create('DEFEAT', now, msg));
             gameOver = true;
         }
     }
@@ -60,10 +66,11 @@ export class VictorySystem implements System {
             maxCoins: state.player.totalCoinsEarned,
             maxLevel: state.player.playerLevel,
             difficulty: state.difficulty,
-            timestamp: Date.now()
+            timestamp: now
         };
         events.push(GameEventFactory.create(
             'LEADERBOARD_UPDATE', 
+            now,
             'Stats submitted', 
             state.player.id, 
             { entry: statsEntry }
@@ -0,0 +1,64 @@
+import { Hex, Entity } from '../types';
+import { GAME_CONFIG } from './config';
+import { getDefenseBonus, hasStructure } from './structures';
+
+export type CaptureCheckResult = {
+  canCapture: boolean;
+  reason?: string;
+};
+
+export function isHostileSector(hex: Hex | undefined, entity: Entity): boolean {
+  return !!hex && !!hex.ownerId && hex.ownerId !== entity.id;
+}
+
+/**
+ * Capture rules: a rival's sector, standing on it, at least one attack token.
+ */
+export function checkCaptureCondition(hex: Hex | undefined, entity: Entity): CaptureCheckResult {
+  if (!hex) return { canCapture: false, reason: 'Invalid Hex' };
+  if (hex.structureType === 'VOID') return { canCapture: false, reason: 'VOID SECTOR' };
+  if (!isHostileSector(hex, entity)) return { canCapture: false, reason: 'NOT A HOSTILE SECTOR' };
+  if (hex.q !== entity.q || hex.r !== entity.r) return { canCapture: false, reason: 'MUST STAND ON SECTOR' };
+  if ((entity.attackTokens || 0) <= 0) return { canCapture: false, reason: 'NO ATTACK TOKENS' };
+  return { canCapture: true };
+}
+
+/**
+ * Ticks of capture needed to drain one level (or flip an L1 sector).
+ */
+export function getCaptureTicks(hex: Hex, grid: Record<string, Hex>): number {
+  const cfg = GAME_CONFIG.CAPTURE;
+  const resist = getDefenseBonus(hex, grid) + (hasStructure(hex) ? cfg.structureResist : 0);
+  return cfg.drainTicksPerLevel * (1 + resist);
+}
+
+/**
+ * The hex one level lower (still owned by its owner).
+ */
+export function drainSector(hex: Hex): Hex {
+  const maxLevel = hex.maxLevel - 1;
+  return {
+    ...hex,
+    maxLevel,
+    currentLevel: Math.min(hex.currentLevel, maxLevel),
+    progress: 0,
+    attackPoint: 0,
+    durability: maxLevel === 1 ? GAME_CONFIG.L1_HEX_MAX_DURABILITY : hex.durability
+  };
+}
+
+/**
+ * The hex as a fresh L1 sector of `ownerId`. Structures change hands; traps are disarmed.
+ */
+export function captureSector(hex: Hex, ownerId: string): Hex {
+  return {
+    ...hex,
+    ownerId,
+    maxLevel: 1,
+    currentLevel: 1,
+    progress: 0,
+    attackPoint: 0,
+    durability: GAME_CONFIG.L1_HEX_MAX_DURABILITY,
+    trap: null
+  };
+}
@@ -13,6 +13,8 @@ export const GAME_CONFIG = {
   INITIAL_COINS: 0,
   EXCHANGE_RATE_COINS_PER_MOVE: 2,
   BOT_ACTION_INTERVAL_MS: 1000,
+  TICK_INTERVAL_MS: 100, // Simulation step (UI loop interval & SimulatedClock step)
+  AUTOSAVE_INTERVAL_TICKS: 50, // Autosave every 5s of play
   L1_HEX_MAX_DURABILITY: 6, // Increased from 3
   
   // Movement & Animation Speeds
@@ -32,10 +34,49 @@ export const GAME_CONFIG = {
     9: { cost: 0,  growthTime: 60, income: 1500, reqRank: 8 },
   } as Record<number, { cost: number, growthTime: number, income: number, reqRank: number }>,
 
+  // Movement cost modifiers (see rules/movementCost.ts). Extra moves per step.
+  MOVEMENT_COST: {
+    OWN_TERRITORY_SURCHARGE: 0,
+    HOSTILE_TERRITORY_SURCHARGE: 0
+  },
+
+  // Hostile capture: standing on a rival sector drains one level per drainTicksPerLevel ticks (stretched by the
+  // sector's defense bonus, and by structureResist if it holds a structure), spending one attack token each.
+  // An L1 sector flips to the attacker. Tokens: startingTokens, plus tokensPerRankUp on every new rank.
+  CAPTURE: { startingTokens: 1, tokensPerRankUp: 1, drainTicksPerLevel: 30, structureResist: 1 },
+
+  // Every payoutIntervalTicks owners earn yieldShare of LEVELS[currentLevel].income per owned sector.
+  // Past fullYieldSectors sectors the total is scaled by (fullYieldSectors / sectors) ^ diminishingExponent.
+  ECONOMY: { payoutIntervalTicks: 50, yieldShare: 0.1, fullYieldSectors: 12, diminishingExponent: 0.5 },
+
+  // Unattended sectors of L{minLevel}+ lose one current level (never below minLevel - 1) each time their decay reaches
+  // pointsPerLevel. Per tick: currentLevel * ratePerLevel, times (1 + ratePerDistance per hex the owner is beyond
+  // safeRadius), divided by (1 + defense bonus). Every upkeepIntervalTicks owners pay upkeepPerLevel per owned level
+  // (0 = no upkeep); an owner who can't pay is in arrears and decays arrearsMultiplier times faster.
+  DECAY: { minLevel: 2, safeRadius: 3, pointsPerLevel: 100, ratePerLevel: 0.05, ratePerDistance: 0.25, upkeepIntervalTicks: 50, upkeepPerLevel: 0, arrearsMultiplier: 2 },
+
+  // Timed channel on an own, worn L1 sector: one durability point back every ticksPerPoint ticks,
+  // each paid with coinsPerPoint coins or movesPerPoint moves
+  REPAIR: { ticksPerPoint: 10, coinsPerPoint: 5, movesPerPoint: 1 },
+
+  // Collapsed (VOID) hexes refill as neutral L0 ground after regenerationTicks. Until then a bridge (bridgeCost,
+  // built from an adjacent hex) makes one walkable as unownable L0; it is replaced by the regenerated ground.
+  VOID: { regenerationTicks: 600, bridgeCost: 30 },
+
+  // Hidden, single-use. A rival stepping in loses `potency` moves, potency * coinsPerPotency coins
+  // and is LOCKED for potency * lockTicksPerPotency ticks.
+  TRAP: { cost: 15, potency: 2, coinsPerPotency: 5, lockTicksPerPotency: 10 },
+
   STRUCTURES: {
-    MINE: { cost: 50, incomePerTick: 1, maxHp: 20 },
-    BARRIER: { cost: 20, hpPerLevel: 10 },
-    CAPITAL: { cost: 500, defenseBonus: 2 }
+    // A mine "tick" is every incomeIntervalTicks engine ticks: pays incomePerTick, or takes raidDamage HP
+    // while a hostile unit stands on it
+    MINE: { cost: 50, incomePerTick: 1, maxHp: 20, incomeIntervalTicks: 20, raidDamage: 1 },
+    // Barrier HP is hpPerLevel per hex level (min 1); every pressureIntervalTicks each adjacent hostile deals pressureDamage
+    BARRIER: { cost: 20, hpPerLevel: 10, pressureIntervalTicks: 10, pressureDamage: 1 },
+    // One per entity, on an L{minLevel}+ sector. The capital and adjacent owned sectors take 1/(1 + defenseBonus) damage.
+    // Raided like a mine (every raidIntervalTicks); losing it forfeits lossPenalty of the owner's coins,
+    // and ends the game for the player when lossIsDefeat is set.
+    CAPITAL: { cost: 500, defenseBonus: 2, minLevel: 2, maxHp: 30, raidIntervalTicks: 10, raidDamage: 1, lossPenalty: 0.5, lossIsDefeat: false }
   }
 };
 
@@ -50,7 +91,9 @@ export const SAFETY_CONFIG = {
   MAX_LOG_SIZE: 50,             
   MAX_PATH_LENGTH: 20,          
   MAX_SEARCH_ITERATIONS: 1000,  
-  MAX_MOVEMENT_QUEUE: 25        
+  MAX_MOVEMENT_QUEUE: 25,
+  MAX_LEDGER_ENTRIES: 50,
+  MAX_JOURNAL_TICKS: 6000       // Replay journal restarts from the current state after this many ticks (10 min)
 };
 
 // Re-export specific constants for ease of use in UI components
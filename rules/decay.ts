@@ -0,0 +1,47 @@
+import { Hex, Entity } from '../types';
+import { GAME_CONFIG } from './config';
+import { cubeDistance } from '../services/hexUtils';
+import { getDefenseBonus } from './structures';
+
+/**
+ * Decay points `hex` gains per tick (0 = stable). Only high sectors decay, and only while their owner is away.
+ */
+export function getDecayRate(hex: Hex, owner: Entity, grid: Record<string, Hex>): number {
+  const cfg = GAME_CONFIG.DECAY;
+  if (hex.ownerId !== owner.id || hex.currentLevel < cfg.minLevel) return 0;
+
+  const beyond = cubeDistance(owner, hex) - cfg.safeRadius;
+  if (beyond <= 0) return 0;
+
+  const rate = hex.currentLevel * cfg.ratePerLevel * (1 + beyond * cfg.ratePerDistance);
+  const arrears = owner.inArrears ? cfg.arrearsMultiplier : 1;
+  return rate * arrears / (1 + getDefenseBonus(hex, grid));
+}
+
+/**
+ * Decay points `hex` has accumulated by SessionState.tick `tick`, at the rate recorded on it.
+ */
+export function getDecayPoints(hex: Hex, tick: number): number {
+  return (hex.decayPoint || 0) + (hex.decayRate || 0) * (tick - (hex.decaySince ?? tick));
+}
+
+/**
+ * The hex decaying at `rate` from `tick` on (this tick's decay included), keeping the points accumulated so far.
+ */
+export function setDecayRate(hex: Hex, rate: number, tick: number): Hex {
+  return { ...hex, decayPoint: getDecayPoints(hex, tick - 1) + rate, decayRate: rate, decaySince: tick };
+}
+
+/**
+ * The hex one current level lower. The max level (and so ownership and rank) is kept: growing back is free.
+ */
+export function decaySector(hex: Hex): Hex {
+  return { ...hex, currentLevel: hex.currentLevel - 1, progress: 0, decayPoint: 0, decayRate: undefined, decaySince: undefined };
+}
+
+/**
+ * Coins owed per upkeep bill for the given owned sectors.
+ */
+export function getUpkeep(owned: Hex[]): number {
+  return owned.reduce((sum, h) => sum + h.maxLevel, 0) * GAME_CONFIG.DECAY.upkeepPerLevel;
+}
@@ -0,0 +1,34 @@
+import { Hex } from '../types';
+import { GAME_CONFIG, getLevelConfig } from './config';
+
+/**
+ * Coins one owned sector yields per payout (decayed sectors yield at their current level).
+ */
+export function getSectorYield(hex: Hex): number {
+  return getLevelConfig(hex.currentLevel).income * GAME_CONFIG.ECONOMY.yieldShare;
+}
+
+/**
+ * Share of the gross yield an empire of `sectors` keeps (1 up to fullYieldSectors, then diminishing).
+ */
+export function getIncomeEfficiency(sectors: number): number {
+  const cfg = GAME_CONFIG.ECONOMY;
+  if (sectors <= cfg.fullYieldSectors) return 1;
+  return Math.pow(cfg.fullYieldSectors / sectors, cfg.diminishingExponent);
+}
+
+/**
+ * Coins (fractional) the given owned sectors pay per payout.
+ */
+export function getPayout(owned: Hex[]): number {
+  const gross = owned.reduce((sum, h) => sum + getSectorYield(h), 0);
+  return gross * getIncomeEfficiency(owned.length);
+}
+
+/**
+ * Projected territory income per real-time minute.
+ */
+export function getIncomePerMinute(owned: Hex[]): number {
+  const payoutMs = GAME_CONFIG.TICK_INTERVAL_MS * GAME_CONFIG.ECONOMY.payoutIntervalTicks;
+  return getPayout(owned) * (60_000 / payoutMs);
+}
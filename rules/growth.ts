@@ -15,6 +15,16 @@ export function checkGrowthCondition(
 ): GrowthCheckResult {
   if (!hex) return { canGrow: false, reason: 'Invalid Hex' };
 
+  // Holes and bridges can never be owned
+  if (hex.structureType === 'VOID' || hex.structureType === 'BRIDGE') {
+    return { canGrow: false, reason: `${hex.structureType} SECTOR` };
+  }
+
+  // Rival sectors are taken by capture (rules/capture.ts), never grown
+  if (hex.ownerId && hex.ownerId !== entity.id) {
+    return { canGrow: false, reason: 'HOSTILE SECTOR' };
+  }
+
   const currentLevel = Number(hex.currentLevel || 0);
   const targetLevel = currentLevel + 1;
 
@@ -24,10 +34,6 @@ export function checkGrowthCondition(
 
   // RECOVERY RULE: If current level is below max level (damaged/decayed), allow free growth
   if (targetLevel <= hex.maxLevel) {
-     // FIX: Cannot recover sectors owned by others (unless capturing via L0->L1 logic)
-     if (hex.ownerId && hex.ownerId !== entity.id && targetLevel > 1) {
-        return { canGrow: false, reason: 'HOSTILE SECTOR' };
-     }
      return { canGrow: true };
   }
 
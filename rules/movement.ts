@@ -0,0 +1,71 @@
+import { Hex, HexCoord } from '../types';
+import { getHexKey, cubeDistance } from '../services/hexUtils';
+
+export type StepBlock = 'VOID' | 'BARRIER' | 'RANK' | 'HEIGHT';
+
+export type PathCheckResult = {
+  ok: boolean;
+  reason?: string;
+};
+
+/**
+ * Barriers stop everyone except their owner.
+ */
+export function isHostileBarrier(hex: Hex | undefined, actorId: string): boolean {
+  return !!hex && hex.structureType === 'BARRIER' && hex.ownerId !== actorId;
+}
+
+/**
+ * Single-step movement rule shared by findPath and MOVE validation.
+ * Unexplored (missing) hexes count as L0 ground.
+ * Barriers depend on who moves: without `actorId` (actor-independent topology) they are open ground.
+ * Returns null if the step from `fromHex` into `toHex` is legal for an entity of `rank`.
+ */
+export function getStepBlock(fromHex: Hex | undefined, toHex: Hex | undefined, rank: number, actorId?: string): StepBlock | null {
+  // Cannot enter a destroyed hex (bridged holes are L0 ground)
+  if (toHex && toHex.structureType === 'VOID') return 'VOID';
+
+  // Cannot enter someone else's barrier
+  if (actorId !== undefined && isHostileBarrier(toHex, actorId)) return 'BARRIER';
+
+  // Cannot enter hex higher than entity rank
+  if (toHex && toHex.maxLevel > rank) return 'RANK';
+
+  // Cannot jump more than 1 level difference
+  const fromLevel = fromHex ? fromHex.maxLevel : 0;
+  const toLevel = toHex ? toHex.maxLevel : 0;
+  if (Math.abs(fromLevel - toLevel) > 1) return 'HEIGHT';
+
+  return null;
+}
+
+/**
+ * Revalidates a full path (excluding the start hex) step by step for `actorId`.
+ */
+export function checkMovePath(start: HexCoord, path: HexCoord[], grid: Record<string, Hex>, rank: number, actorId?: string): PathCheckResult {
+  let prev = start;
+  for (let i = 0; i < path.length; i++) {
+    const step = path[i];
+    const where = `Step ${i + 1} (${step.q},${step.r})`;
+
+    if (cubeDistance(prev, step) !== 1) {
+      return { ok: false, reason: `${where} is not adjacent to (${prev.q},${prev.r})` };
+    }
+
+    const fromHex = grid[getHexKey(prev.q, prev.r)];
+    const toHex = grid[getHexKey(step.q, step.r)];
+    switch (getStepBlock(fromHex, toHex, rank, actorId)) {
+      case 'VOID':
+        return { ok: false, reason: `${where} is a VOID hex` };
+      case 'BARRIER':
+        return { ok: false, reason: `${where} is blocked by a BARRIER` };
+      case 'RANK':
+        return { ok: false, reason: `${where} is L${toHex!.maxLevel}, above rank L${rank}` };
+      case 'HEIGHT':
+        return { ok: false, reason: `${where} jumps L${fromHex ? fromHex.maxLevel : 0} -> L${toHex ? toHex.maxLevel : 0} (max 1)` };
+    }
+
+    prev = step;
+  }
+  return { ok: true };
+}
@@ -0,0 +1,109 @@
+import { Entity, Hex, HexCoord } from '../types';
+import { GAME_CONFIG } from './config';
+import { getHexKey } from '../services/hexUtils';
+
+/**
+ * Adjusts the cost of entering `hex` for `actorId` (undefined when the mover is unknown).
+ * Receives the cost accumulated so far and returns the new cost.
+ */
+export type StepCostModifier = (cost: number, hex: Hex | undefined, actorId: string | undefined) => number;
+
+export interface MovementCostOptions {
+  // Coins charged per missing move
+  exchangeRate?: number;
+  // Extra moves to enter a hex owned by the mover / by someone else
+  ownTerritorySurcharge?: number;
+  hostileTerritorySurcharge?: number;
+  // Terrain/structure specific surcharges (e.g. BARRIER)
+  terrainSurcharge?: Partial<Record<NonNullable<Hex['structureType']>, number>>;
+  modifiers?: StepCostModifier[];
+}
+
+export interface MoveQuote {
+  totalMoves: number;  // Full path cost in moves
+  costMoves: number;   // Paid from the move pool
+  costCoins: number;   // Deficit paid in coins
+  canAfford: boolean;
+}
+
+/**
+ * MovementCostModel - The single source of truth for what movement costs.
+ * Base rule: L2+ hexes cost their level, everything else costs 1.
+ * Used by ActionProcessor (charging), findPath (edge weights), the bot and the UI quotes.
+ * Step costs never drop below 1 so findPath's distance heuristic stays admissible.
+ */
+export class MovementCostModel {
+  private options: Required<Omit<MovementCostOptions, 'terrainSurcharge'>> & Pick<MovementCostOptions, 'terrainSurcharge'>;
+
+  constructor(options: MovementCostOptions = {}) {
+    this.options = {
+      exchangeRate: options.exchangeRate ?? GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE,
+      ownTerritorySurcharge: options.ownTerritorySurcharge ?? GAME_CONFIG.MOVEMENT_COST.OWN_TERRITORY_SURCHARGE,
+      hostileTerritorySurcharge: options.hostileTerritorySurcharge ?? GAME_CONFIG.MOVEMENT_COST.HOSTILE_TERRITORY_SURCHARGE,
+      terrainSurcharge: options.terrainSurcharge,
+      modifiers: options.modifiers || []
+    };
+  }
+
+  public get exchangeRate(): number {
+    return this.options.exchangeRate;
+  }
+
+  /**
+   * New model with the same settings plus an extra modifier.
+   */
+  public withModifier(modifier: StepCostModifier): MovementCostModel {
+    return new MovementCostModel({ ...this.options, modifiers: [...this.options.modifiers, modifier] });
+  }
+
+  /**
+   * Moves needed to enter `hex` (undefined = unexplored L0 ground).
+   */
+  public stepCost(hex: Hex | undefined, actorId?: string): number {
+    let cost = (hex && hex.maxLevel >= 2) ? hex.maxLevel : 1;
+
+    if (hex?.ownerId && actorId) {
+      cost += hex.ownerId === actorId ? this.options.ownTerritorySurcharge : this.options.hostileTerritorySurcharge;
+    }
+    if (hex?.structureType && this.options.terrainSurcharge) {
+      cost += this.options.terrainSurcharge[hex.structureType] || 0;
+    }
+    for (const modifier of this.options.modifiers) {
+      cost = modifier(cost, hex, actorId);
+    }
+
+    return Math.max(1, cost);
+  }
+
+  public pathCost(path: HexCoord[], grid: Record<string, Hex>, actorId?: string): number {
+    let total = 0;
+    for (const step of path) {
+      total += this.stepCost(grid[getHexKey(step.q, step.r)], actorId);
+    }
+    return total;
+  }
+
+  public coinsForMoves(moves: number): number {
+    return moves * this.options.exchangeRate;
+  }
+
+  /**
+   * Splits a path's cost into moves spent and the coin-paid deficit.
+   */
+  public quote(path: HexCoord[], grid: Record<string, Hex>, actor: Pick<Entity, 'id' | 'moves' | 'coins'>): MoveQuote {
+    const totalMoves = this.pathCost(path, grid, actor.id);
+    const costMoves = Math.min(actor.moves, totalMoves);
+    const costCoins = this.coinsForMoves(totalMoves - costMoves);
+    return { totalMoves, costMoves, costCoins, canAfford: actor.coins >= costCoins };
+  }
+
+  /**
+   * Moves the actor can muster in total (pool + coins converted at the exchange rate).
+   */
+  public maxAffordableMoves(actor: Pick<Entity, 'moves' | 'coins'>): number {
+    return actor.moves + Math.floor(actor.coins / this.options.exchangeRate);
+  }
+}
+
+// Default ruleset (GAME_CONFIG)
+export const movementCostModel = new MovementCostModel();
@@ -0,0 +1,53 @@
+import { Hex, Entity, RepairPayment } from '../types';
+import { GAME_CONFIG } from './config';
+
+export type RepairCheckResult = {
+  canRepair: boolean;
+  reason?: string;
+};
+
+/**
+ * Durability of an L1 sector (missing = untouched).
+ */
+export function getDurability(hex: Hex): number {
+  return hex.durability ?? GAME_CONFIG.L1_HEX_MAX_DURABILITY;
+}
+
+/**
+ * Price of one durability point.
+ */
+export function getRepairCost(payWith: RepairPayment): { coins: number; moves: number } {
+  const cfg = GAME_CONFIG.REPAIR;
+  return payWith === 'COINS' ? { coins: cfg.coinsPerPoint, moves: 0 } : { coins: 0, moves: cfg.movesPerPoint };
+}
+
+/**
+ * Cheapest way `entity` can pay for the next point: coins first, moves otherwise.
+ */
+export function getRepairPayment(entity: Entity): RepairPayment {
+  return entity.coins >= GAME_CONFIG.REPAIR.coinsPerPoint ? 'COINS' : 'MOVES';
+}
+
+/**
+ * Repair rules: own worn L1 sector, standing on it, able to pay for the next point.
+ */
+export function checkRepairCondition(hex: Hex | undefined, entity: Entity, payWith: RepairPayment): RepairCheckResult {
+  if (!hex) return { canRepair: false, reason: 'Invalid Hex' };
+  if (hex.ownerId !== entity.id) return { canRepair: false, reason: 'NOT YOUR SECTOR' };
+  if (hex.q !== entity.q || hex.r !== entity.r) return { canRepair: false, reason: 'MUST STAND ON SECTOR' };
+  if (hex.maxLevel !== 1) return { canRepair: false, reason: 'ONLY L1 SECTORS WEAR' };
+  if (getDurability(hex) >= GAME_CONFIG.L1_HEX_MAX_DURABILITY) return { canRepair: false, reason: 'DURABILITY FULL' };
+
+  const cost = getRepairCost(payWith);
+  if (entity.coins < cost.coins) return { canRepair: false, reason: `INSUFFICIENT CREDITS (NEED ${cost.coins})` };
+  if (entity.moves < cost.moves) return { canRepair: false, reason: `INSUFFICIENT MOVES (NEED ${cost.moves})` };
+
+  return { canRepair: true };
+}
+
+/**
+ * The hex with one durability point restored.
+ */
+export function repairSector(hex: Hex): Hex {
+  return { ...hex, durability: Math.min(GAME_CONFIG.L1_HEX_MAX_DURABILITY, getDurability(hex) + 1), progress: 0 };
+}
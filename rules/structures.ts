@@ -0,0 +1,106 @@
+import { Hex, Entity, StructureType } from '../types';
+import { GAME_CONFIG } from './config';
+import { getHexKey, getNeighbors } from '../services/hexUtils';
+
+export type BuildCheckResult = {
+  canBuild: boolean;
+  reason?: string;
+};
+
+// Structures that can currently be built
+const BUILDABLE: Partial<Record<StructureType, true>> = { MINE: true, BARRIER: true, CAPITAL: true };
+
+// Per-entity caps
+const LIMITS: Partial<Record<StructureType, number>> = { CAPITAL: 1 };
+
+export function getStructureCost(type: StructureType): number {
+  return GAME_CONFIG.STRUCTURES[type].cost;
+}
+
+export function hasStructure(hex: Hex): boolean {
+  return !!hex.structureType && hex.structureType !== 'NONE' && hex.structureType !== 'VOID' && hex.structureType !== 'BRIDGE';
+}
+
+/**
+ * Full HP of the structure on `hex` (barriers scale with the hex level).
+ */
+export function getStructureMaxHp(hex: Hex): number {
+  switch (hex.structureType) {
+    case 'MINE':
+      return GAME_CONFIG.STRUCTURES.MINE.maxHp;
+    case 'BARRIER':
+      return GAME_CONFIG.STRUCTURES.BARRIER.hpPerLevel * Math.max(1, hex.maxLevel);
+    case 'CAPITAL':
+      return GAME_CONFIG.STRUCTURES.CAPITAL.maxHp;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Defense bonus of an owned sector: granted by its owner's capital on the sector or next to it.
+ */
+export function getDefenseBonus(hex: Hex, grid: Record<string, Hex>): number {
+  if (!hex.ownerId) return 0;
+  const isOwnCapital = (h: Hex | undefined) => !!h && h.structureType === 'CAPITAL' && h.ownerId === hex.ownerId;
+  if (isOwnCapital(hex) || getNeighbors(hex.q, hex.r).some(n => isOwnCapital(grid[getHexKey(n.q, n.r)]))) {
+    return GAME_CONFIG.STRUCTURES.CAPITAL.defenseBonus;
+  }
+  return 0;
+}
+
+/**
+ * Structure damage after the sector's defense bonus.
+ */
+export function getStructureDamage(hex: Hex, grid: Record<string, Hex>, damage: number): number {
+  return damage / (1 + getDefenseBonus(hex, grid));
+}
+
+/**
+ * Building rules: own sector, standing on it, one structure per sector, paid up front.
+ * `standing` lists the structures of `type` already on the map (for per-entity limits).
+ */
+export function checkBuildCondition(hex: Hex | undefined, entity: Entity, type: StructureType, standing: Hex[] = []): BuildCheckResult {
+  if (!hex) return { canBuild: false, reason: 'Invalid Hex' };
+  if (!BUILDABLE[type]) return { canBuild: false, reason: `${type} NOT AVAILABLE` };
+
+  if (hex.structureType === 'VOID') return { canBuild: false, reason: 'VOID SECTOR' };
+  if (hex.ownerId !== entity.id) return { canBuild: false, reason: 'NOT YOUR SECTOR' };
+  if (hex.q !== entity.q || hex.r !== entity.r) return { canBuild: false, reason: 'MUST STAND ON SECTOR' };
+  if (hasStructure(hex)) return { canBuild: false, reason: `SECTOR HAS ${hex.structureType}` };
+
+  if (type === 'CAPITAL' && hex.maxLevel < GAME_CONFIG.STRUCTURES.CAPITAL.minLevel) {
+    return { canBuild: false, reason: `CAPITAL NEEDS L${GAME_CONFIG.STRUCTURES.CAPITAL.minLevel} SECTOR` };
+  }
+  const limit = LIMITS[type];
+  if (limit !== undefined && standing.filter(h => h.ownerId === entity.id).length >= limit) {
+    return { canBuild: false, reason: `${type} LIMIT REACHED (${limit})` };
+  }
+
+  const cost = getStructureCost(type);
+  if (entity.coins < cost) return { canBuild: false, reason: `INSUFFICIENT CREDITS (NEED ${cost})` };
+
+  return { canBuild: true };
+}
+
+/**
+ * Coins forfeited by `owner` on losing its capital.
+ */
+export function getCapitalLossPenalty(owner: Entity): number {
+  return Math.floor(owner.coins * GAME_CONFIG.STRUCTURES.CAPITAL.lossPenalty);
+}
+
+/**
+ * The hex with a freshly built structure of `type`.
+ */
+export function buildStructure(hex: Hex, type: StructureType): Hex {
+  const built: Hex = { ...clearStructure(hex), structureType: type };
+  return { ...built, structureHp: getStructureMaxHp(built) };
+}
+
+/**
+ * The hex with its structure removed (destroyed or dismantled).
+ */
+export function clearStructure(hex: Hex): Hex {
+  return { ...hex, structureType: undefined, structureHp: undefined, mineDueAt: undefined, pressureTimer: undefined, raidTimer: undefined };
+}
@@ -0,0 +1,55 @@
+import { Hex, Entity } from '../types';
+import { GAME_CONFIG } from './config';
+import { cubeDistance } from '../services/hexUtils';
+
+export type BridgeCheckResult = {
+  canBridge: boolean;
+  reason?: string;
+};
+
+/**
+ * Bridge rules: a VOID hex next to the builder, paid up front.
+ */
+export function checkBridgeCondition(hex: Hex | undefined, entity: Entity): BridgeCheckResult {
+  if (!hex) return { canBridge: false, reason: 'Invalid Hex' };
+  if (hex.structureType === 'BRIDGE') return { canBridge: false, reason: 'ALREADY BRIDGED' };
+  if (hex.structureType !== 'VOID') return { canBridge: false, reason: 'NOT A VOID SECTOR' };
+  if (cubeDistance(entity, hex) !== 1) return { canBridge: false, reason: 'MUST STAND NEXT TO SECTOR' };
+
+  const cost = GAME_CONFIG.VOID.bridgeCost;
+  if (entity.coins < cost) return { canBridge: false, reason: `INSUFFICIENT CREDITS (NEED ${cost})` };
+
+  return { canBridge: true };
+}
+
+/**
+ * Ticks until a VOID hex (bridged or not) regenerates, at SessionState.tick `tick`.
+ * A hole without a collapse stamp counts as collapsed at `tick`.
+ */
+export function getRegenerationTicksLeft(hex: Hex, tick: number): number {
+  const elapsed = tick - (hex.collapsedAt ?? tick);
+  return Math.max(0, GAME_CONFIG.VOID.regenerationTicks - elapsed);
+}
+
+/**
+ * The hole spanned by a bridge: walkable L0, never owned. Regeneration still counts from the collapse.
+ */
+export function buildBridge(hex: Hex): Hex {
+  return { ...hex, structureType: 'BRIDGE' };
+}
+
+/**
+ * The hole (or bridge) refilled as neutral L0 ground.
+ */
+export function regenerateSector(hex: Hex): Hex {
+  return {
+    ...hex,
+    structureType: undefined,
+    collapsedAt: undefined,
+    maxLevel: 0,
+    currentLevel: 0,
+    progress: 0,
+    ownerId: undefined,
+    revealed: true
+  };
+}
@@ -0,0 +1,59 @@
+import { Hex, Entity } from '../types';
+import { GAME_CONFIG } from './config';
+
+export type TrapCheckResult = {
+  canArm: boolean;
+  reason?: string;
+};
+
+export type TrapEffect = {
+  movesLost: number;
+  coinsLost: number;
+  lockTicks: number;
+};
+
+export function hasActiveTrap(hex: Hex | undefined): boolean {
+  return !!hex && !!hex.trap && hex.trap.active;
+}
+
+/**
+ * Arming rules: own sector, standing on it, one trap per sector, paid up front.
+ */
+export function checkTrapCondition(hex: Hex | undefined, entity: Entity): TrapCheckResult {
+  if (!hex) return { canArm: false, reason: 'Invalid Hex' };
+  if (hex.structureType === 'VOID') return { canArm: false, reason: 'VOID SECTOR' };
+  if (hex.ownerId !== entity.id) return { canArm: false, reason: 'NOT YOUR SECTOR' };
+  if (hex.q !== entity.q || hex.r !== entity.r) return { canArm: false, reason: 'MUST STAND ON SECTOR' };
+  if (hasActiveTrap(hex)) return { canArm: false, reason: 'TRAP ALREADY ARMED' };
+
+  const cost = GAME_CONFIG.TRAP.cost;
+  if (entity.coins < cost) return { canArm: false, reason: `INSUFFICIENT CREDITS (NEED ${cost})` };
+
+  return { canArm: true };
+}
+
+/**
+ * The hex with a freshly armed trap.
+ */
+export function armTrap(hex: Hex): Hex {
+  return { ...hex, trap: { active: true, potency: GAME_CONFIG.TRAP.potency } };
+}
+
+/**
+ * Whether `entity` springs the trap on `hex` by stepping in (owners walk over their own traps).
+ */
+export function triggersTrap(hex: Hex | undefined, entity: Entity): boolean {
+  return hasActiveTrap(hex) && hex!.ownerId !== entity.id;
+}
+
+/**
+ * What a trap of `potency` takes from `victim` (never more than it has).
+ */
+export function getTrapEffect(potency: number, victim: Entity): TrapEffect {
+  const cfg = GAME_CONFIG.TRAP;
+  return {
+    movesLost: Math.min(victim.moves, potency),
+    coinsLost: Math.min(victim.coins, potency * cfg.coinsPerPotency),
+    lockTicks: potency * cfg.lockTicksPerPotency
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Headless Match Runner
+ * Usage: npm run match -- --difficulty HARD --bots 3 --level 5 --coins 250 --seed 42 --max-ticks 20000 --player bot
+ * Prints a JSON MatchSummary to stdout, incl. each entity's coin/move ledger breakdown.
+ * Intended for batch balance testing of GAME_CONFIG.
+ */
+import { runHeadlessMatch, HeadlessMatchOptions, PlayerPolicy } from '../engine/HeadlessRunner';
+import { Difficulty } from '../types';
+
+const DIFFICULTIES: Difficulty[] = ['EASY', 'MEDIUM', 'HARD'];
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const [key, inline] = arg.slice(2).split('=');
+    if (inline !== undefined) {
+      args[key] = inline;
+    } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) {
+      args[key] = argv[++i];
+    } else {
+      args[key] = 'true';
+    }
+  }
+  return args;
+};
+
+const toInt = (value: string | undefined, fallback: number, name: string): number => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`--${name} must be a non-negative integer (got "${value}")`);
+  return n;
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+
+  const difficulty = (args.difficulty || 'MEDIUM').toUpperCase() as Difficulty;
+  if (!DIFFICULTIES.includes(difficulty)) throw new Error(`--difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+
+  const player = (args.player || 'bot').toUpperCase() as PlayerPolicy;
+  if (player !== 'BOT' && player !== 'IDLE') throw new Error('--player must be "bot" or "idle"');
+
+  const options: HeadlessMatchOptions = {
+    difficulty,
+    botCount: toInt(args.bots, 1, 'bots'),
+    targetLevel: toInt(args.level, 5, 'level'),
+    targetCoins: toInt(args.coins, 250, 'coins'),
+    seed: toInt(args.seed, 1, 'seed'),
+    maxTicks: toInt(args['max-ticks'], 20000, 'max-ticks'),
+    playerPolicy: player
+  };
+
+  const summary = runHeadlessMatch(options);
+  process.stdout.write(JSON.stringify(summary, null, 2) + '\n');
+};
+
+try {
+  main();
+} catch (e) {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+}
@@ -17,6 +17,7 @@ type SoundType =
   | 'GROWTH_START'
   | 'COLLAPSE'
   | 'CRACK'
+  | 'TRAP'
   | 'WARNING';
 
 class AudioService {
@@ -243,6 +244,22 @@ class AudioService {
         break;
       }
 
+      case 'TRAP': {
+        // Metallic snap: fast square-wave drop
+        const osc = this.ctx.createOscillator();
+        const gain = this.ctx.createGain();
+        osc.type = 'square';
+        osc.frequency.setValueAtTime(900, t);
+        osc.frequency.exponentialRampToValueAtTime(80, t + 0.15);
+        gain.gain.setValueAtTime(0.25, t);
+        gain.gain.exponentialRampToValueAtTime(0.001, t + 0.2);
+        osc.connect(gain);
+        gain.connect(this.masterGain);
+        osc.start(t);
+        osc.stop(t + 0.2);
+        break;
+      }
+
       case 'COLLAPSE': {
         // Breaking glass / rubble sound (Deeper)
         const noiseBuffer = this.ctx.createBuffer(1, this.ctx.sampleRate * 0.5, this.ctx.sampleRate);
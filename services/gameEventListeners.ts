@@ -0,0 +1,129 @@
+/**
+ * Presentation listeners for engine events (audio cues & floating text).
+ * Each attach function returns a single disposer for all of its subscriptions.
+ */
+import { FloatingText, GameEvent, SessionState } from '../types';
+import { EventBus } from '../engine/EventBus';
+import { audioService } from './audioService';
+
+const EFFECT_LIFETIME_MS = 1200;
+
+const isPlayerEvent = (event: GameEvent, state: SessionState) => event.entityId === state.player.id;
+
+const disposeAll = (disposers: (() => void)[]) => () => disposers.forEach(d => d());
+
+export const attachAudioListeners = (bus: EventBus): (() => void) => {
+  const playForPlayer = (sound: Parameters<typeof audioService.play>[0]) =>
+    (event: GameEvent, state: SessionState) => {
+      if (isPlayerEvent(event, state)) audioService.play(sound);
+    };
+
+  return disposeAll([
+    bus.on('LEVEL_UP', playForPlayer('LEVEL_UP')),
+    bus.on('SECTOR_ACQUIRED', playForPlayer('SUCCESS')),
+    bus.on('RECOVERY_USED', playForPlayer('COIN')),
+    bus.on('HEX_COLLAPSE', playForPlayer('COLLAPSE')),
+    bus.on('STRUCTURE_DESTROYED', playForPlayer('COLLAPSE')),
+    // Attacker or defending owner hears it
+    bus.on('SECTOR_DRAINED', (event, state) => {
+      if (isPlayerEvent(event, state) || event.data.ownerId === state.player.id) audioService.play('CRACK');
+    }),
+    bus.on('SECTOR_CAPTURED', (event, state) => {
+      if (event.data.previousOwnerId === state.player.id) audioService.play('COLLAPSE');
+    }),
+    // Victim or trap owner hears it
+    bus.on('TRAP_TRIGGERED', (event, state) => {
+      if (isPlayerEvent(event, state) || event.data.ownerId === state.player.id) audioService.play('TRAP');
+    }),
+    bus.on('SECTOR_DECAYED', playForPlayer('CRACK')),
+    bus.on('UPKEEP_UNPAID', playForPlayer('ERROR')),
+    bus.on('ACTION_DENIED', playForPlayer('ERROR')),
+    bus.on('ERROR', playForPlayer('ERROR')),
+    bus.on('VICTORY', () => audioService.play('SUCCESS')),
+    bus.on('DEFEAT', () => audioService.play('ERROR'))
+  ]);
+};
+
+type EffectStyle = Pick<FloatingText, 'text' | 'color' | 'icon'>;
+
+/**
+ * Floating text above the acting entity (or the collapsed hex).
+ * Effects live on the session state so the canvas can render them.
+ */
+export const attachEffectListeners = (bus: EventBus): (() => void) => {
+  const spawn = (state: SessionState, q: number, r: number, style: EffectStyle) => {
+    const now = Date.now();
+    if (!state.effects) state.effects = [];
+    state.effects.push({
+      id: `fx-${now}-${Math.random()}`,
+      q,
+      r,
+      ...style,
+      startTime: now,
+      lifetime: EFFECT_LIFETIME_MS
+    });
+  };
+
+  const atEntity = (style: (isPlayer: boolean) => EffectStyle | null) =>
+    (event: GameEvent, state: SessionState) => {
+      const isPlayer = isPlayerEvent(event, state);
+      const entity = isPlayer ? state.player : state.bots.find(b => b.id === event.entityId);
+      const resolved = entity ? style(isPlayer) : null;
+      if (entity && resolved) spawn(state, entity.q, entity.r, resolved);
+    };
+
+  const denied = atEntity(isPlayer => isPlayer ? { text: "DENIED", color: "#ef4444", icon: 'WARN' } : null);
+
+  return disposeAll([
+    bus.on('LEVEL_UP', atEntity(isPlayer => ({
+      text: isPlayer ? "RANK UP!" : "RIVAL UP!",
+      color: isPlayer ? "#fbbf24" : "#f87171", // Amber or Red
+      icon: 'UP'
+    }))),
+    bus.on('SECTOR_ACQUIRED', atEntity(isPlayer => ({
+      text: isPlayer ? "ACQUIRED" : "EXPANSION",
+      color: isPlayer ? "#38bdf8" : "#f87171", // Cyan or Red
+      icon: 'PLUS'
+    }))),
+    bus.on('RECOVERY_USED', atEntity(isPlayer => isPlayer ? { text: "+MOVES", color: "#34d399", icon: 'COIN' } : null)),
+    bus.on('ACTION_DENIED', denied),
+    bus.on('ERROR', denied),
+    // Collapse effect goes on the hex coordinate, not the entity
+    bus.on('HEX_COLLAPSE', (event, state) => {
+      if (event.entityId) spawn(state, event.data.q, event.data.r, { text: "COLLAPSE", color: "#ef4444", icon: 'DOWN' });
+    }),
+    bus.on('SECTOR_DRAINED', (event, state) => {
+      const isDefender = event.data.ownerId === state.player.id;
+      spawn(state, event.data.q, event.data.r, { text: `DRAINED L${event.data.level}`, color: isDefender ? "#ef4444" : "#fbbf24", icon: 'DOWN' });
+    }),
+    bus.on('SECTOR_CAPTURED', (event, state) => {
+      if (event.data.previousOwnerId === state.player.id) {
+        spawn(state, event.data.q, event.data.r, { text: "SECTOR LOST", color: "#ef4444", icon: 'WARN' });
+      }
+    }),
+    bus.on('TRAP_TRIGGERED', (event, state) => {
+      const isPlayer = isPlayerEvent(event, state);
+      spawn(state, event.data.q, event.data.r, {
+        text: isPlayer ? "TRAPPED!" : "TRAP SPRUNG",
+        color: isPlayer ? "#ef4444" : "#a78bfa",
+        icon: 'WARN'
+      });
+    }),
+    bus.on('SECTOR_REPAIRED', (event, state) => {
+      if (isPlayerEvent(event, state)) spawn(state, event.data.q, event.data.r, { text: "+1 DURABILITY", color: "#34d399", icon: 'PLUS' });
+    }),
+    bus.on('VOID_REGENERATED', (event, state) => {
+      spawn(state, event.data.q, event.data.r, { text: "RESTORED", color: "#34d399", icon: 'PLUS' });
+    }),
+    bus.on('SECTOR_DECAYED', (event, state) => {
+      if (isPlayerEvent(event, state)) spawn(state, event.data.q, event.data.r, { text: `DECAY L${event.data.level}`, color: "#fb923c", icon: 'DOWN' });
+    }),
+    bus.on('UPKEEP_UNPAID', atEntity(isPlayer => isPlayer ? { text: "UPKEEP DUE", color: "#ef4444", icon: 'COIN' } : null)),
+    bus.on('INCOME_PAYOUT', (event, state) => {
+      if (isPlayerEvent(event, state)) spawn(state, state.player.q, state.player.r, { text: `+${event.data.amount}`, color: "#fbbf24", icon: 'COIN' });
+    }),
+    bus.on('STRUCTURE_DESTROYED', (event, state) => {
+      spawn(state, event.data.q, event.data.r, { text: `${event.data.structureType} LOST`, color: "#f87171", icon: 'DOWN' });
+    })
+  ]);
+};
@@ -3,6 +3,8 @@
 
 import { Hex, HexCoord } from '../types';
 import { GAME_CONFIG, getLevelConfig, SAFETY_CONFIG } from '../rules/config';
+import { getStepBlock } from '../rules/movement';
+import { MovementCostModel, movementCostModel } from '../rules/movementCost';
 
 export const getHexKey = (q: number, r: number): string => `${q},${r}`;
 export const getCoordinatesFromKey = (key: string): HexCoord => {
@@ -46,9 +48,215 @@ export const cubeDistance = (a: HexCoord, b: HexCoord): number => {
   return (Math.abs(a.q - b.q) + Math.abs(a.q + a.r - b.q - b.r) + Math.abs(a.r - b.r)) / 2;
 };
 
+// Neighbor offsets, counter-clockwise starting east
+export const HEX_DIRECTIONS: readonly HexCoord[] = [{ q: 1, r: 0 }, { q: 1, r: -1 }, { q: 0, r: -1 }, { q: -1, r: 0 }, { q: -1, r: 1 }, { q: 0, r: 1 }];
+
 export const getNeighbors = (q: number, r: number): HexCoord[] => {
-  const directions = [{ q: 1, r: 0 }, { q: 1, r: -1 }, { q: 0, r: -1 }, { q: -1, r: 0 }, { q: -1, r: 1 }, { q: 0, r: 1 }];
-  return directions.map(d => ({ q: q + d.q, r: r + d.r }));
+  return HEX_DIRECTIONS.map(d => ({ q: q + d.q, r: r + d.r }));
+};
+
+// --- Geometry Toolkit ---
+
+/**
+ * Rounds fractional axial coordinates to the nearest hex (via cube rounding).
+ */
+export const hexRound = (q: number, r: number): HexCoord => {
+  const s = -q - r;
+  let rq = Math.round(q);
+  let rr = Math.round(r);
+  const rs = Math.round(s);
+
+  const dq = Math.abs(rq - q);
+  const dr = Math.abs(rr - r);
+  const ds = Math.abs(rs - s);
+
+  if (dq > dr && dq > ds) rq = -rr - rs;
+  else if (dr > ds) rr = -rq - rs;
+
+  // Avoid -0 so results can be compared and keyed safely
+  return { q: rq + 0, r: rr + 0 };
+};
+
+/**
+ * Inverse of hexToPixel: the hex under a world-space point, honoring camera rotation and perspective squash.
+ */
+export const pixelToHex = (x: number, y: number, rotationDegrees: number = 0): HexCoord => {
+  const size = GAME_CONFIG.HEX_SIZE;
+  let rawX = x;
+  let rawY = y / 0.8;
+
+  if (rotationDegrees !== 0) {
+    const angleRad = -rotationDegrees * DEG_TO_RAD;
+    const cos = Math.cos(angleRad);
+    const sin = Math.sin(angleRad);
+    const rx = rawX * cos - rawY * sin;
+    rawY = rawX * sin + rawY * cos;
+    rawX = rx;
+  }
+
+  return hexRound((SQRT_3 / 3 * rawX - rawY / 3) / size, (2 / 3 * rawY) / size);
+};
+
+/**
+ * Hexes exactly `radius` steps from `center`, in walking order starting at the south-west corner.
+ */
+export const getRing = (center: HexCoord, radius: number): HexCoord[] => {
+  if (radius <= 0) return [{ q: center.q, r: center.r }];
+
+  const ring: HexCoord[] = [];
+  let q = center.q + HEX_DIRECTIONS[4].q * radius;
+  let r = center.r + HEX_DIRECTIONS[4].r * radius;
+  for (let side = 0; side < 6; side++) {
+    for (let step = 0; step < radius; step++) {
+      ring.push({ q, r });
+      q += HEX_DIRECTIONS[side].q;
+      r += HEX_DIRECTIONS[side].r;
+    }
+  }
+  return ring;
+};
+
+/**
+ * Every hex within `radius`, ordered center-out (ring by ring).
+ */
+export const getSpiral = (center: HexCoord, radius: number): HexCoord[] => {
+  const spiral: HexCoord[] = [{ q: center.q, r: center.r }];
+  for (let k = 1; k <= radius; k++) spiral.push(...getRing(center, k));
+  return spiral;
+};
+
+/**
+ * Hexes within range of both centers (e.g. overlap of two influence areas).
+ */
+export const getRangeIntersection = (a: HexCoord, radiusA: number, b: HexCoord, radiusB: number): HexCoord[] => {
+  const sa = -a.q - a.r;
+  const sb = -b.q - b.r;
+  const qMin = Math.max(a.q - radiusA, b.q - radiusB), qMax = Math.min(a.q + radiusA, b.q + radiusB);
+  const rMin = Math.max(a.r - radiusA, b.r - radiusB), rMax = Math.min(a.r + radiusA, b.r + radiusB);
+  const sMin = Math.max(sa - radiusA, sb - radiusB), sMax = Math.min(sa + radiusA, sb + radiusB);
+
+  const result: HexCoord[] = [];
+  for (let q = qMin; q <= qMax; q++) {
+    for (let r = Math.max(rMin, -q - sMax); r <= Math.min(rMax, -q - sMin); r++) {
+      result.push({ q, r });
+    }
+  }
+  return result;
+};
+
+/**
+ * Hexes on the straight line from `a` to `b`, both ends included.
+ */
+export const getHexLine = (a: HexCoord, b: HexCoord): HexCoord[] => {
+  const n = cubeDistance(a, b);
+  if (n === 0) return [{ q: a.q, r: a.r }];
+
+  // Nudge off exact edges so ties round consistently
+  const aq = a.q + 1e-6, ar = a.r + 1e-6;
+  const bq = b.q + 1e-6, br = b.r + 1e-6;
+
+  const line: HexCoord[] = [];
+  for (let i = 0; i <= n; i++) {
+    const t = i / n;
+    line.push(hexRound(aq + (bq - aq) * t, ar + (br - ar) * t));
+  }
+  return line;
+};
+
+/**
+ * Line of sight with elevation occlusion. The sight line runs from the top of `from` (plus `eyeHeight`)
+ * to the top of `to`; any hex in between rising above it blocks the view.
+ * Unexplored hexes count as L0, VOID hexes as holes (never block).
+ */
+export const hasLineOfSight = (from: HexCoord, to: HexCoord, grid: Record<string, Hex>, eyeHeight: number = 0): boolean => {
+  const heightOf = (c: HexCoord) => {
+    const hex = grid[getHexKey(c.q, c.r)];
+    return !hex || hex.structureType === 'VOID' ? 0 : hex.maxLevel;
+  };
+
+  const line = getHexLine(from, to);
+  const startHeight = heightOf(from) + eyeHeight;
+  const endHeight = heightOf(to);
+
+  for (let i = 1; i < line.length - 1; i++) {
+    const sightHeight = startHeight + (endHeight - startHeight) * (i / (line.length - 1));
+    if (heightOf(line[i]) > sightHeight) return false;
+  }
+  return true;
+};
+
+/**
+ * Rotates `coord` around `center` in 60° steps (positive = same direction as hexToPixel's rotationDegrees).
+ */
+export const rotateHex = (coord: HexCoord, steps: number, center: HexCoord = { q: 0, r: 0 }): HexCoord => {
+  let q = coord.q - center.q;
+  let r = coord.r - center.r;
+  const turns = ((steps % 6) + 6) % 6;
+  for (let i = 0; i < turns; i++) {
+    const s = -q - r;
+    q = -r;
+    r = -s;
+  }
+  return { q: q + center.q + 0, r: r + center.r + 0 };
+};
+
+/**
+ * Mirrors `coord` across the line through `center` along the given cube axis (that coordinate is kept).
+ */
+export const reflectHex = (coord: HexCoord, axis: 'q' | 'r' | 's', center: HexCoord = { q: 0, r: 0 }): HexCoord => {
+  const q = coord.q - center.q;
+  const r = coord.r - center.r;
+  const s = -q - r;
+
+  let result: HexCoord;
+  switch (axis) {
+    case 'q': result = { q, r: s }; break;
+    case 'r': result = { q: s, r }; break;
+    case 's': result = { q: r, r: q }; break;
+  }
+  return { q: result.q + center.q + 0, r: result.r + center.r + 0 };
+};
+
+/**
+ * Breadth-first flood fill from `start` through hexes accepted by `canEnter` (start is always included).
+ * `limit` caps the result size for unbounded areas such as unexplored space.
+ */
+export const floodFill = (start: HexCoord, canEnter: (coord: HexCoord) => boolean, limit: number = Infinity): HexCoord[] => {
+  const visited = new Set<string>([getHexKey(start.q, start.r)]);
+  const result: HexCoord[] = [{ q: start.q, r: start.r }];
+
+  let head = 0;
+  while (head < result.length && result.length < limit) {
+    const current = result[head++];
+    for (const n of getNeighbors(current.q, current.r)) {
+      const key = getHexKey(n.q, n.r);
+      if (visited.has(key)) continue;
+      visited.add(key);
+      if (!canEnter(n)) continue;
+      result.push(n);
+      if (result.length >= limit) break;
+    }
+  }
+  return result;
+};
+
+/**
+ * Splits a set of hexes into adjacency-connected groups (e.g. separate territory islands).
+ * Groups come out in input order of their first member.
+ */
+export const getConnectedComponents = (coords: HexCoord[]): HexCoord[][] => {
+  const members = new Set(coords.map(c => getHexKey(c.q, c.r)));
+  const assigned = new Set<string>();
+  const components: HexCoord[][] = [];
+
+  for (const c of coords) {
+    const key = getHexKey(c.q, c.r);
+    if (assigned.has(key)) continue;
+    const component = floodFill(c, n => members.has(getHexKey(n.q, n.r)));
+    component.forEach(m => assigned.add(getHexKey(m.q, m.r)));
+    components.push(component);
+  }
+  return components;
 };
 
 export const calculateReward = (level: number) => {
@@ -61,7 +269,7 @@ export const getSecondsToGrow = (level: number) => getLevelConfig(level).growthT
 /**
  * Min-Heap Priority Queue implementation for O(log n) retrievals
  */
-class PriorityQueue<T> {
+export class PriorityQueue<T> {
   private _heap: { node: T; weight: number }[] = [];
 
   get length(): number {
@@ -140,7 +348,9 @@ export const findPath = (
   end: HexCoord, 
   grid: Record<string, Hex>, 
   rank: number, 
-  obstacles: HexCoord[]
+  obstacles: HexCoord[],
+  costModel: MovementCostModel = movementCostModel,
+  actorId?: string
 ): HexCoord[] | null => {
   const startKey = getHexKey(start.q, start.r);
   const endKey = getHexKey(end.q, end.r);
@@ -196,7 +406,6 @@ export const findPath = (
 
     const currentCoord = getCoordinatesFromKey(currentKey);
     const currentHex = grid[currentKey];
-    const currentLevel = currentHex ? currentHex.maxLevel : 0;
     
     // Evaluate Neighbors
     const neighbors = getNeighbors(currentCoord.q, currentCoord.r);
@@ -208,20 +417,11 @@ export const findPath = (
 
       const neighborHex = grid[nKey];
       
-      // -- Game Rules --
-      // 0. Void Check: Cannot enter a destroyed hex
-      if (neighborHex && neighborHex.structureType === 'VOID') continue;
-
-      // 1. Rank Check: Cannot enter hex higher than player rank
-      if (neighborHex && neighborHex.maxLevel > rank) continue; 
-      
-      // 2. Height/Jump Check: Cannot jump more than 1 level difference
-      const nextLevel = neighborHex ? neighborHex.maxLevel : 0;
-      if (Math.abs(currentLevel - nextLevel) > 1) continue;
+      // -- Game Rules -- (VOID, hostile barriers, rank limit, +/-1 height; shared with MOVE validation)
+      if (getStepBlock(currentHex, neighborHex, rank, actorId)) continue;
 
       // -- Cost Calculation --
-      // Base cost 1. Rough terrain (L2+) costs more.
-      const moveCost = (neighborHex && neighborHex.maxLevel >= 2) ? neighborHex.maxLevel : 1;
+      const moveCost = costModel.stepCost(neighborHex, actorId);
       const tentativeG = (gScore.get(currentKey) ?? Infinity) + moveCost;
 
       if (tentativeG < (gScore.get(nKey) ?? Infinity)) {
@@ -236,4 +436,95 @@ export const findPath = (
 
   // No path found
   return null;
-};
\ No newline at end of file
+};
+
+export interface MoveBudget {
+  moves: number;
+  coins: number;
+}
+
+export interface ReachableHex {
+  q: number;
+  r: number;
+  totalMoves: number; // Cheapest path cost in moves
+  costMoves: number;  // Paid from the move pool
+  costCoins: number;  // Deficit paid in coins
+  steps: number;
+}
+
+/**
+ * Budget-Aware Reachability (Dijkstra Flood Fill)
+ * Every hex reachable from `start` within the budget (moves + coins at the exchange rate),
+ * keyed by hex key with its cheapest cost. Same step rules and costs as findPath.
+ * The start hex itself is not included. `maxSteps` bounds the search radius.
+ */
+export const getReachableHexes = (
+  start: HexCoord,
+  grid: Record<string, Hex>,
+  rank: number,
+  obstacles: HexCoord[],
+  budget: MoveBudget,
+  costModel: MovementCostModel = movementCostModel,
+  actorId?: string,
+  maxSteps: number = SAFETY_CONFIG.MAX_PATH_LENGTH
+): Map<string, ReachableHex> => {
+  const reachable = new Map<string, ReachableHex>();
+  const maxMoves = costModel.maxAffordableMoves(budget);
+  if (maxMoves <= 0) return reachable;
+
+  const startKey = getHexKey(start.q, start.r);
+  const obsKeys = new Set(obstacles.map(o => getHexKey(o.q, o.r)));
+  const best = new Map<string, { cost: number; steps: number }>([[startKey, { cost: 0, steps: 0 }]]);
+  const settled = new Set<string>();
+  const openSet = new PriorityQueue<string>();
+  openSet.push(startKey, 0);
+
+  let iterations = 0;
+
+  while (openSet.length > 0) {
+    // Safety Break (scaled: a flood fill settles every hex in range, not one route)
+    if (iterations++ > SAFETY_CONFIG.MAX_SEARCH_ITERATIONS * 10) break;
+
+    const currentKey = openSet.pop()!;
+    if (settled.has(currentKey)) continue; // Stale heap entry
+    settled.add(currentKey);
+
+    const current = best.get(currentKey)!;
+    const currentCoord = getCoordinatesFromKey(currentKey);
+
+    if (currentKey !== startKey) {
+      const costMoves = Math.min(budget.moves, current.cost);
+      reachable.set(currentKey, {
+        q: currentCoord.q,
+        r: currentCoord.r,
+        totalMoves: current.cost,
+        costMoves,
+        costCoins: costModel.coinsForMoves(current.cost - costMoves),
+        steps: current.steps
+      });
+    }
+
+    // Path length cap (defaults to findPath's)
+    if (current.steps >= maxSteps) continue;
+
+    const currentHex = grid[currentKey];
+    for (const neighbor of getNeighbors(currentCoord.q, currentCoord.r)) {
+      const nKey = getHexKey(neighbor.q, neighbor.r);
+      if (obsKeys.has(nKey) || settled.has(nKey)) continue;
+
+      const neighborHex = grid[nKey];
+      if (getStepBlock(currentHex, neighborHex, rank, actorId)) continue;
+
+      const cost = current.cost + costModel.stepCost(neighborHex, actorId);
+      if (cost > maxMoves) continue;
+
+      const known = best.get(nKey);
+      if (!known || cost < known.cost) {
+        best.set(nKey, { cost, steps: current.steps + 1 });
+        openSet.push(nKey, cost);
+      }
+    }
+  }
+
+  return reachable;
+};
@@ -0,0 +1,81 @@
+/**
+ * Save Slot Persistence for HexQuest
+ * Stores serialized sessions in named slots (localStorage by default).
+ */
+import { SessionState } from '../types';
+import { serializeSession, deserializeSession, LoadResult, SAVE_SCHEMA_VERSION } from '../engine/SessionSerializer';
+
+export const AUTOSAVE_SLOT = 'autosave';
+
+const SLOT_KEY_PREFIX = 'hexquest_save_';
+const SLOT_INDEX_KEY = 'hexquest_save_index';
+
+export interface SaveSlotInfo {
+  slot: string;
+  label: string;
+  savedAt: number;
+  schemaVersion: number;
+}
+
+// Minimal subset of the Web Storage API, so tests/headless runs can pass their own backend
+export interface SaveStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export class SaveService {
+  private storage: SaveStorage | null;
+
+  constructor(storage?: SaveStorage) {
+    this.storage = storage || (typeof localStorage !== 'undefined' ? localStorage : null);
+  }
+
+  public listSlots(): SaveSlotInfo[] {
+    if (!this.storage) return [];
+    try {
+      const stored = this.storage.getItem(SLOT_INDEX_KEY);
+      const slots: SaveSlotInfo[] = stored ? JSON.parse(stored) : [];
+      return slots.sort((a, b) => b.savedAt - a.savedAt);
+    } catch (e) {
+      console.error("Failed to read save index", e);
+      return [];
+    }
+  }
+
+  public hasSave(slot: string): boolean {
+    return this.listSlots().some(s => s.slot === slot);
+  }
+
+  public save(slot: string, state: SessionState, label: string): boolean {
+    if (!this.storage) return false;
+    const savedAt = Date.now();
+    try {
+      this.storage.setItem(SLOT_KEY_PREFIX + slot, serializeSession(state, label, savedAt));
+      const slots = this.listSlots().filter(s => s.slot !== slot);
+      slots.push({ slot, label, savedAt, schemaVersion: SAVE_SCHEMA_VERSION });
+      this.storage.setItem(SLOT_INDEX_KEY, JSON.stringify(slots));
+      return true;
+    } catch (e) {
+      // Quota exceeded or storage disabled
+      console.error("Failed to save session", e);
+      return false;
+    }
+  }
+
+  public load(slot: string): LoadResult {
+    if (!this.storage) return { ok: false, reason: 'Storage unavailable' };
+    const raw = this.storage.getItem(SLOT_KEY_PREFIX + slot);
+    if (!raw) return { ok: false, reason: `Save slot "${slot}" is empty` };
+    return deserializeSession(raw);
+  }
+
+  public remove(slot: string) {
+    if (!this.storage) return;
+    this.storage.removeItem(SLOT_KEY_PREFIX + slot);
+    const slots = this.listSlots().filter(s => s.slot !== slot);
+    this.storage.setItem(SLOT_INDEX_KEY, JSON.stringify(slots));
+  }
+}
+
+export const saveService = new SaveService();
@@ -4,15 +4,21 @@
 
 
 import { create } from 'zustand';
-import { GameState, Entity, Hex, EntityType, UIState, WinCondition, LeaderboardEntry, EntityState, MoveAction, RechargeAction, SessionState, LogEntry, FloatingText } from './types.ts';
+import { GameState, UIState, WinCondition, LeaderboardEntry, EntityState, MoveAction, RechargeAction, UpgradeAction, SessionState, GameEvent, HexCoord, StructureType } from './types.ts';
 import { GAME_CONFIG } from './rules/config.ts';
-import { getHexKey, getNeighbors, findPath } from './services/hexUtils.ts';
+import { getHexKey, findPath } from './services/hexUtils.ts';
 import { GameEngine } from './engine/GameEngine.ts';
+import { createInitialSessionData } from './engine/session.ts';
+import { SessionJournal } from './engine/SessionRecorder.ts';
+import { InvariantReport } from './engine/InvariantChecker.ts';
 import { checkGrowthCondition } from './rules/growth.ts';
+import { getRepairPayment } from './rules/repair.ts';
+import { MovementCostModel, movementCostModel } from './rules/movementCost.ts';
 import { audioService } from './services/audioService.ts';
+import { saveService, AUTOSAVE_SLOT, SaveSlotInfo } from './services/saveService.ts';
+import { attachAudioListeners, attachEffectListeners } from './services/gameEventListeners.ts';
 
 const MOCK_USER_DB: Record<string, { password: string; avatarColor: string; avatarIcon: string }> = {};
-const BOT_PALETTE = ['#ef4444', '#f97316', '#a855f7', '#ec4899']; 
 const LEADERBOARD_STORAGE_KEY = 'hexquest_leaderboard_v3'; // Incremented version
 
 // Helper to load persisted leaderboard
@@ -30,6 +36,7 @@ interface AuthResponse { success: boolean; message?: string; }
 
 interface GameStore extends GameState {
   session: SessionState | null;
+  saveSlots: SaveSlotInfo[];
 
   setUIState: (state: UIState) => void;
   loginAsGuest: (n: string, c: string, i: string) => void;
@@ -38,8 +45,18 @@ interface GameStore extends GameState {
   logout: () => void;
   startNewGame: (win: WinCondition) => void;
   abandonSession: () => void;
+  resumeSession: () => void;
+  saveSession: (slot: string, label?: string) => boolean;
+  loadSession: (slot: string) => boolean;
+  deleteSave: (slot: string) => void;
+  exportSessionJournal: () => SessionJournal | null;
   togglePlayerGrowth: (intent?: 'RECOVER' | 'UPGRADE') => void;
   rechargeMove: () => void;
+  buildStructure: (structureType: StructureType) => void;
+  armTrap: () => void;
+  captureSector: () => void;
+  buildBridge: (q: number, r: number) => void;
+  repairSector: () => void;
   movePlayer: (q: number, r: number) => void;
   confirmPendingAction: () => void;
   cancelPendingAction: () => void;
@@ -52,69 +69,135 @@ interface GameStore extends GameState {
 
 // Module-level singleton to hold the mutable engine instance outside of React's state
 let engine: GameEngine | null = null;
+let ticksSinceAutosave = 0;
+// Destination of the long-distance route being walked segment by segment (see continueRoute)
+let activeRoute: HexCoord | null = null;
+
+/**
+ * Cost model of the running engine, so UI quotes always match what the engine charges.
+ */
+export const getMovementCostModel = (): MovementCostModel => engine?.movementCost || movementCostModel;
+
+const startEngine = (state: SessionState) => {
+  if (engine) engine.destroy();
+  engine = new GameEngine(state, {
+    record: true,
+    invariants: import.meta.env.DEV ? reportInvariantViolation : undefined
+  });
+  ticksSinceAutosave = 0;
+  activeRoute = null;
+
+  attachAudioListeners(engine.events);
+  attachEffectListeners(engine.events);
+  attachStoreListeners(engine);
+};
 
-// Generates the data for a NEW game session. UI state is not part of this.
-const createInitialSessionData = (winCondition: WinCondition): SessionState => {
-  const startHex = { id: getHexKey(0,0), q:0, r:0, currentLevel: 0, maxLevel: 0, progress: 0, revealed: true };
-  const initialGrid: Record<string, Hex> = { [getHexKey(0,0)]: startHex };
-  getNeighbors(0, 0).forEach(n => { initialGrid[getHexKey(n.q, n.r)] = { id: getHexKey(n.q,n.r), q:n.q, r:n.r, currentLevel:0, maxLevel:0, progress:0, revealed:true }; });
-  
-  const botCount = winCondition.botCount || 1;
-  const bots: Entity[] = [];
-  const spawnPoints = [{ q: 0, r: -2 }, { q: 2, r: -2 }, { q: 2, r: 0 }, { q: 0, r: 2 }, { q: -2, r: 2 }, { q: -2, r: 0 }];
-
-  for (let i = 0; i < Math.min(botCount, spawnPoints.length); i++) {
-    const sp = spawnPoints[i];
-    if (!initialGrid[getHexKey(sp.q, sp.r)]) {
-        initialGrid[getHexKey(sp.q, sp.r)] = { id: getHexKey(sp.q,sp.r), q:sp.q, r:sp.r, currentLevel:0, maxLevel:0, progress:0, revealed:true };
-        getNeighbors(sp.q, sp.r).forEach(n => {
-            const k = getHexKey(n.q, n.r);
-            if (!initialGrid[k]) initialGrid[k] = { id:k, q:n.q, r:n.r, currentLevel:0, maxLevel:0, progress:0, revealed:true };
-        });
-    }
-    bots.push({
-      id: `bot-${i+1}`, type: EntityType.BOT, state: EntityState.IDLE, q: sp.q, r: sp.r,
-      playerLevel: 0, coins: GAME_CONFIG.INITIAL_COINS, moves: GAME_CONFIG.INITIAL_MOVES,
-      totalCoinsEarned: 0, recentUpgrades: [], movementQueue: [],
-      memory: { lastPlayerPos: null, currentGoal: null, stuckCounter: 0 },
-      avatarColor: BOT_PALETTE[i % BOT_PALETTE.length],
-      recoveredCurrentHex: false
-    });
+/**
+ * Issues the next MOVE segment of the active route once the player is idle again.
+ * Replans from the current position, so the route adapts to collapsed hexes and moving bots.
+ * Returns a failure reason if the route had to be abandoned.
+ */
+const continueRoute = (session: SessionState): string | null => {
+  if (!engine || !activeRoute) return null;
+  const { player } = session;
+  if (player.state !== EntityState.IDLE || player.movementQueue.length > 0) return null;
+
+  const target = activeRoute;
+  if (player.q === target.q && player.r === target.r) {
+    activeRoute = null;
+    return null;
   }
-  
-  const initialLog: LogEntry = {
-    id: 'init-0',
-    text: 'System Online. Mission Initialized.',
-    type: 'INFO',
-    source: 'SYSTEM',
-    timestamp: Date.now()
-  };
 
-  return {
-    stateVersion: 0,
-    sessionId: Math.random().toString(36).substring(2, 15),
-    sessionStartTime: Date.now(),
-    winCondition,
-    difficulty: winCondition.difficulty,
-    grid: initialGrid,
-    player: {
-      id: 'player-1', type: EntityType.PLAYER, state: EntityState.IDLE, q: 0, r: 0,
-      playerLevel: 0, coins: GAME_CONFIG.INITIAL_COINS, moves: GAME_CONFIG.INITIAL_MOVES,
-      totalCoinsEarned: 0, recentUpgrades: [], movementQueue: [],
-      recoveredCurrentHex: false
-    },
-    bots,
-    currentTurn: 0,
-    messageLog: [initialLog],
-    botActivityLog: [], 
-    gameStatus: 'PLAYING',
-    lastBotActionTime: Date.now(),
-    isPlayerGrowing: false,
-    playerGrowthIntent: null,
-    growingBotIds: [],
-    telemetry: [],
-    effects: [] // Visual effects layer
+  const obstacles = session.bots.map(b => ({ q: b.q, r: b.r }));
+  const route = engine.pathfinder?.findRoute(player, target, session.grid, player.playerLevel, obstacles, player.id);
+  if (!route || route.segments.length === 0) {
+    activeRoute = null;
+    return 'Route Blocked';
+  }
+
+  const res = engine.applyAction(player.id, { type: 'MOVE', path: route.segments[0], stateVersion: session.stateVersion });
+  if (!res.ok) {
+    activeRoute = null;
+    return res.reason || 'Route Blocked';
+  }
+  return null;
+};
+
+// Dev builds only: surface engine desyncs as soon as the offending system/action runs.
+// The (large) state dump is kept on window instead of the console, latest violation only.
+const reportInvariantViolation = (report: InvariantReport) => {
+  window.__lastInvariantDump = report.stateDump;
+  console.error(
+    `[Invariant] ${report.violations.length} violation(s) after ${report.source} (v${report.stateVersion}); state dump in window.__lastInvariantDump (load via deserializeSession)`,
+    report.violations
+  );
+};
+
+// Score used to rank leaderboard entries
+const leaderboardScore = (e: LeaderboardEntry) => e.maxCoins + e.maxLevel * 100;
+
+/**
+ * Merges an engine stats submission into the persisted leaderboard.
+ * Returns null when the entry does not beat the user's existing record.
+ */
+const mergeLeaderboardEntry = (leaderboard: LeaderboardEntry[], entry: LeaderboardEntry): LeaderboardEntry[] | null => {
+  const next = [...leaderboard];
+  const existingIndex = next.findIndex(e => e.nickname === entry.nickname && e.difficulty === entry.difficulty);
+
+  if (existingIndex > -1) {
+    if (leaderboardScore(entry) <= leaderboardScore(next[existingIndex])) return null;
+    next[existingIndex] = entry;
+  } else {
+    next.push(entry);
+  }
+
+  return next.sort((a, b) => leaderboardScore(b) - leaderboardScore(a));
+};
+
+/**
+ * Engine events that feed store state: toasts, the error log and leaderboard persistence.
+ * Listeners are dropped with the engine (GameEngine.destroy clears its bus).
+ */
+const attachStoreListeners = (target: GameEngine) => {
+  const onError = (event: GameEvent, state: SessionState) => {
+    if (event.entityId === state.player.id) {
+      useGameStore.setState({ toast: { message: event.message || 'Error', type: 'error', timestamp: Date.now() } });
+    }
+    const alreadyLogged = state.messageLog.some(l => l.timestamp === event.timestamp && l.text === event.message);
+    if (!alreadyLogged && event.message) {
+      state.messageLog.unshift({
+        id: `err-${Date.now()}-${Math.random()}`,
+        text: event.message,
+        type: 'ERROR',
+        source: event.entityId || 'SYSTEM',
+        timestamp: Date.now()
+      });
+    }
   };
+  target.events.on('ACTION_DENIED', onError);
+  target.events.on('ERROR', onError);
+
+  target.events.on('RECOVERY_USED', (event, state) => {
+    if (event.entityId !== state.player.id) return;
+    useGameStore.setState({ toast: { message: event.message || 'Supplies Recovered', type: 'success', timestamp: Date.now() } });
+  });
+
+  target.events.on('LEADERBOARD_UPDATE', (event) => {
+    const { user, leaderboard } = useGameStore.getState();
+    const stats = event.data.entry;
+    const updated = mergeLeaderboardEntry(leaderboard, {
+      nickname: user?.nickname || 'Unknown Commander',
+      avatarColor: user?.avatarColor || '#3b82f6',
+      avatarIcon: user?.avatarIcon || 'user',
+      maxCoins: stats.maxCoins || 0,
+      maxLevel: stats.maxLevel || 0,
+      difficulty: stats.difficulty || 'MEDIUM',
+      timestamp: Date.now()
+    });
+    if (!updated) return;
+    localStorage.setItem(LEADERBOARD_STORAGE_KEY, JSON.stringify(updated));
+    useGameStore.setState({ leaderboard: updated });
+  });
 };
 
 export const useGameStore = create<GameStore>((set, get) => ({
@@ -124,11 +207,12 @@ export const useGameStore = create<GameStore>((set, get) => ({
   toast: null,
   pendingConfirmation: null,
   leaderboard: loadLeaderboard(),
-  hasActiveSession: false,
+  hasActiveSession: saveService.hasSave(AUTOSAVE_SLOT), // Survives page reloads via autosave
   isMuted: false,
   
   // Reactive snapshot of the engine's state
   session: null,
+  saveSlots: saveService.listSlots(),
   
   setUIState: (uiState) => set({ uiState }),
   
@@ -175,17 +259,59 @@ export const useGameStore = create<GameStore>((set, get) => ({
       audioService.play('UI_CLICK');
       get().abandonSession(); // Ensure old engine is destroyed
       const initialSessionState = createInitialSessionData(winCondition);
-      engine = new GameEngine(initialSessionState); 
-      set({ session: engine.state, hasActiveSession: true, uiState: 'GAME' });
+      startEngine(initialSessionState);
+      set({ session: engine!.state, hasActiveSession: true, uiState: 'GAME' });
   },
 
   abandonSession: () => {
-      if (engine) {
-          engine.destroy();
+      const hadAutosave = saveService.hasSave(AUTOSAVE_SLOT);
+      if (hadAutosave) saveService.remove(AUTOSAVE_SLOT);
+      if (engine || hadAutosave) {
+          if (engine) engine.destroy();
           engine = null;
-          set({ session: null, hasActiveSession: false, uiState: 'MENU' });
+          set({ session: null, hasActiveSession: false, uiState: 'MENU', saveSlots: saveService.listSlots() });
       }
   },
+
+  resumeSession: () => {
+      audioService.play('UI_CLICK');
+      if (engine) {
+          set({ uiState: 'GAME' });
+          return;
+      }
+      // Page was reloaded: restore from the autosave
+      get().loadSession(AUTOSAVE_SLOT);
+  },
+
+  saveSession: (slot, label) => {
+      if (!engine || !engine.state) return false;
+      const state = engine.state;
+      const ok = saveService.save(slot, state, label || state.winCondition?.label || 'Session');
+      set({ saveSlots: saveService.listSlots() });
+      return ok;
+  },
+
+  loadSession: (slot) => {
+      const res = saveService.load(slot);
+      if (!res.ok || !res.file) {
+          audioService.play('ERROR');
+          console.error("Failed to load session", res.reason);
+          set({ toast: { message: res.reason || "Load Failed", type: 'error', timestamp: Date.now() } });
+          return false;
+      }
+      // A fresh engine rebuilds the WorldIndex from the loaded grid & entities
+      startEngine(res.file.state);
+      set({ session: engine!.state, hasActiveSession: true, uiState: 'GAME', pendingConfirmation: null });
+      return true;
+  },
+
+  deleteSave: (slot) => {
+      saveService.remove(slot);
+      set({ saveSlots: saveService.listSlots() });
+  },
+  
+  // Repro data for bug reports (replay with SessionReplay)
+  exportSessionJournal: () => engine ? engine.exportJournal() : null,
   
   showToast: (message, type) => set({ toast: { message, type, timestamp: Date.now() } }),
   hideToast: () => set({ toast: null }),
@@ -229,45 +355,125 @@ export const useGameStore = create<GameStore>((set, get) => ({
       }
   },
 
+  buildStructure: (structureType) => {
+      if (!engine) return;
+      const { player, stateVersion } = engine.state;
+
+      const action: UpgradeAction = { type: 'UPGRADE', coord: { q: player.q, r: player.r }, upgradeType: structureType, stateVersion };
+      const res = engine.applyAction(player.id, action);
+      if (res.ok) {
+        audioService.play('SUCCESS');
+        set({ session: engine.state, toast: { message: `${structureType} Built`, type: 'success', timestamp: Date.now() } });
+      } else {
+        audioService.play('ERROR');
+        set({ toast: { message: res.reason || "Build Failed", type: 'error', timestamp: Date.now() } });
+      }
+  },
+
+  armTrap: () => {
+      if (!engine) return;
+      const { player, stateVersion } = engine.state;
+
+      const res = engine.applyAction(player.id, { type: 'ARM_TRAP', coord: { q: player.q, r: player.r }, stateVersion });
+      if (res.ok) {
+        audioService.play('SUCCESS');
+        set({ session: engine.state, toast: { message: 'Trap Armed', type: 'success', timestamp: Date.now() } });
+      } else {
+        audioService.play('ERROR');
+        set({ toast: { message: res.reason || "Arming Failed", type: 'error', timestamp: Date.now() } });
+      }
+  },
+
+  buildBridge: (q, r) => {
+      if (!engine) return;
+      const { player, stateVersion } = engine.state;
+
+      const res = engine.applyAction(player.id, { type: 'BUILD_BRIDGE', coord: { q, r }, stateVersion });
+      if (res.ok) {
+        audioService.play('SUCCESS');
+        set({ session: engine.state, toast: { message: 'Bridge Built', type: 'success', timestamp: Date.now() } });
+      } else {
+        audioService.play('ERROR');
+        set({ toast: { message: res.reason || "Bridge Failed", type: 'error', timestamp: Date.now() } });
+      }
+  },
+
+  captureSector: () => {
+      if (!engine) return;
+      const { player, stateVersion } = engine.state;
+
+      const res = engine.applyAction(player.id, { type: 'UPGRADE', coord: { q: player.q, r: player.r }, intent: 'CAPTURE', stateVersion });
+      if (res.ok) {
+        audioService.play('GROWTH_START');
+        set({ session: engine.state, toast: { message: 'Capture Started', type: 'info', timestamp: Date.now() } });
+      } else {
+        audioService.play('ERROR');
+        set({ toast: { message: res.reason || "Capture Failed", type: 'error', timestamp: Date.now() } });
+      }
+  },
+
+  repairSector: () => {
+      if (!engine) return;
+      const { player, stateVersion } = engine.state;
+
+      const payWith = getRepairPayment(player);
+      const res = engine.applyAction(player.id, { type: 'REPAIR', coord: { q: player.q, r: player.r }, payWith, stateVersion });
+      if (res.ok) {
+        audioService.play('GROWTH_START');
+        set({ session: engine.state, toast: { message: `Repair Started (${payWith === 'COINS' ? 'Credits' : 'Moves'})`, type: 'info', timestamp: Date.now() } });
+      } else {
+        audioService.play('ERROR');
+        set({ toast: { message: res.reason || "Repair Failed", type: 'error', timestamp: Date.now() } });
+      }
+  },
+
   movePlayer: (tq, tr) => {
       if (!engine) return;
       const { session } = get();
       if (!session) return;
 
       if (session.player.state === EntityState.MOVING) return;
+      activeRoute = null;
       
       const obstacles = session.bots.map(b => ({ q: b.q, r: b.r }));
-      const path = findPath({ q: session.player.q, r: session.player.r }, { q: tq, r: tr }, session.grid, session.player.playerLevel, obstacles);
-      
+      const costModel = getMovementCostModel();
+      let path = findPath({ q: session.player.q, r: session.player.r }, { q: tq, r: tr }, session.grid, session.player.playerLevel, obstacles, costModel, session.player.id);
+      let quotedPath = path;
+      let routeTarget: HexCoord | undefined;
+
+      // Beyond findPath's limits: plan the whole route, walk it one MOVE segment at a time
       if (!path) {
+        const route = engine.pathfinder?.findRoute(session.player, { q: tq, r: tr }, session.grid, session.player.playerLevel, obstacles, session.player.id);
+        if (route && route.segments.length > 0) {
+          path = route.segments[0];
+          quotedPath = route.path;
+          routeTarget = { q: tq, r: tr };
+        }
+      }
+      
+      if (!path || !quotedPath) {
         audioService.play('ERROR');
         set({ toast: { message: "Path Blocked", type: 'error', timestamp: Date.now() } });
         return;
       }
 
-      let totalMoveCost = 0;
-      for (const step of path) {
-        const hex = session.grid[getHexKey(step.q, step.r)];
-        totalMoveCost += (hex && hex.maxLevel >= 2) ? hex.maxLevel : 1;
-      }
-
-      const costMoves = Math.min(session.player.moves, totalMoveCost);
-      const costCoins = (totalMoveCost - costMoves) * GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE;
+      const { costMoves, costCoins, canAfford } = costModel.quote(quotedPath, session.grid, session.player);
 
-      if (session.player.coins < costCoins) {
+      if (!canAfford) {
         audioService.play('ERROR');
         set({ toast: { message: `Need ${costCoins} credits`, type: 'error', timestamp: Date.now() } });
         return;
       }
       if (costCoins > 0) {
         audioService.play('WARNING');
-        set({ pendingConfirmation: { type: 'MOVE_WITH_COINS', data: { path, costMoves, costCoins } } });
+        set({ pendingConfirmation: { type: 'MOVE_WITH_COINS', data: { path, costMoves, costCoins, routeTarget } } });
         return;
       }
 
       const action: MoveAction = { type: 'MOVE', path, stateVersion: session.stateVersion };
       const res = engine.applyAction(session.player.id, action);
       if (res.ok) {
+        activeRoute = routeTarget || null;
         audioService.play('MOVE');
         set({ session: engine.state });
       } else {
@@ -281,11 +487,12 @@ export const useGameStore = create<GameStore>((set, get) => ({
       const { pendingConfirmation, session } = get();
       if (!pendingConfirmation || !session) return;
 
-      const { path } = pendingConfirmation.data;
+      const { path, routeTarget } = pendingConfirmation.data;
       const action: MoveAction = { type: 'MOVE', path, stateVersion: session.stateVersion };
       
       const res = engine.applyAction(session.player.id, action);
       if (res.ok) {
+        activeRoute = routeTarget || null;
         audioService.play('MOVE');
         set({ session: engine.state, pendingConfirmation: null });
       } else {
@@ -309,6 +516,12 @@ export const useGameStore = create<GameStore>((set, get) => ({
       const durabilityBefore = playerHexBefore?.durability;
 
       const result = engine.processTick();
+
+      // Autosave (keeps "Resume Session" alive across reloads)
+      if (++ticksSinceAutosave >= GAME_CONFIG.AUTOSAVE_INTERVAL_TICKS) {
+          ticksSinceAutosave = 0;
+          saveService.save(AUTOSAVE_SLOT, result.state, 'Autosave');
+      }
       
       // Check if durability decreased on player hex
       const playerHexAfter = result.state.grid[playerHexKey];
@@ -331,171 +544,14 @@ export const useGameStore = create<GameStore>((set, get) => ({
           result.state.effects = [];
       }
 
-      const hasEvents = result.events.length > 0;
-      const shouldUpdateUI = true; 
-      
-      // Process Events into Effects & Audio
-      if (hasEvents) {
-          result.events.forEach(event => {
-            const isPlayer = event.entityId === result.state.player.id;
-            
-            // Audio Feedback
-            if (isPlayer) {
-               switch (event.type) {
-                 case 'LEVEL_UP': audioService.play('LEVEL_UP'); break;
-                 case 'SECTOR_ACQUIRED': audioService.play('SUCCESS'); break;
-                 case 'RECOVERY_USED': audioService.play('COIN'); break;
-                 case 'HEX_COLLAPSE': audioService.play('COLLAPSE'); break;
-                 case 'ACTION_DENIED': 
-                 case 'ERROR': audioService.play('ERROR'); break;
-               }
-            }
-            if (event.type === 'VICTORY') audioService.play('SUCCESS');
-            if (event.type === 'DEFEAT') audioService.play('ERROR');
-
-            // Visual Effects (Floating Text)
-            if (event.entityId) {
-                const entity = result.state.player.id === event.entityId 
-                    ? result.state.player 
-                    : result.state.bots.find(b => b.id === event.entityId);
-                
-                // For hex collapse, we want the effect on the hex coordinate, not necessarily the entity (though they are same usually)
-                const targetQ = event.data?.q !== undefined ? Number(event.data.q) : (entity?.q || 0);
-                const targetR = event.data?.r !== undefined ? Number(event.data.r) : (entity?.r || 0);
-
-                if (entity || event.type === 'HEX_COLLAPSE') {
-                    let text = '';
-                    let color = '#ffffff';
-                    let icon: FloatingText['icon'] = undefined;
-
-                    switch (event.type) {
-                        case 'LEVEL_UP':
-                            text = isPlayer ? "RANK UP!" : "RIVAL UP!";
-                            color = isPlayer ? "#fbbf24" : "#f87171"; // Amber or Red
-                            icon = 'UP';
-                            break;
-                        case 'SECTOR_ACQUIRED':
-                            text = isPlayer ? "ACQUIRED" : "EXPANSION";
-                            color = isPlayer ? "#38bdf8" : "#f87171"; // Cyan or Red
-                            icon = 'PLUS';
-                            break;
-                        case 'RECOVERY_USED':
-                            if (isPlayer) {
-                                text = "+MOVES";
-                                color = "#34d399"; // Emerald
-                                icon = 'COIN';
-                            }
-                            break;
-                        case 'HEX_COLLAPSE':
-                            text = "COLLAPSE";
-                            color = "#ef4444"; // Red
-                            icon = 'DOWN';
-                            break;
-                        case 'ACTION_DENIED':
-                        case 'ERROR':
-                            if (isPlayer) {
-                                text = "DENIED";
-                                color = "#ef4444"; // Red
-                                icon = 'WARN';
-                            }
-                            break;
-                    }
-
-                    if (text) {
-                        result.state.effects.push({
-                            id: `fx-${Date.now()}-${Math.random()}`,
-                            q: targetQ,
-                            r: targetR,
-                            text,
-                            color,
-                            icon,
-                            startTime: now,
-                            lifetime: 1200 // 1.2s
-                        });
-                    }
-                }
-            }
-          });
+      // Long-distance route: queue the next segment as soon as the previous one finished
+      const routeError = continueRoute(result.state);
+      if (routeError) {
+          audioService.play('ERROR');
+          set({ toast: { message: routeError, type: 'error', timestamp: Date.now() } });
       }
 
-      if (hasEvents || shouldUpdateUI) {
-          let newToast = get().toast;
-          let leaderboardUpdated = false;
-          const currentLeaderboard = [...get().leaderboard];
-
-          // 1. Error Handling & Toasts
-          const error = result.events.find(e => e.type === 'ACTION_DENIED' || e.type === 'ERROR');
-          if (error) {
-              if (error.entityId === engine.state.player.id) {
-                 newToast = { message: error.message || 'Error', type: 'error', timestamp: Date.now() };
-              }
-              const alreadyLogged = result.state.messageLog.some(l => l.timestamp === error.timestamp && l.text === error.message);
-              if (!alreadyLogged && error.message) {
-                  result.state.messageLog.unshift({
-                      id: `err-${Date.now()}-${Math.random()}`,
-                      text: error.message,
-                      type: 'ERROR',
-                      source: error.entityId || 'SYSTEM',
-                      timestamp: Date.now()
-                  });
-              }
-          }
-          
-          // 2. Recovery Toast (Logic already handled by effects, but keep Toast for persistence)
-          const recovery = result.events.find(e => e.type === 'RECOVERY_USED' && e.entityId === engine.state.player.id);
-          if (recovery) {
-             newToast = { message: recovery.message || 'Supplies Recovered', type: 'success', timestamp: Date.now() };
-          }
-
-          // 3. Leaderboard
-          const leaderboardEvent = result.events.find(e => e.type === 'LEADERBOARD_UPDATE');
-          if (leaderboardEvent && leaderboardEvent.data?.entry) {
-              const engineStats = leaderboardEvent.data.entry as LeaderboardEntry;
-              const user = get().user;
-              
-              const newEntry: LeaderboardEntry = {
-                  nickname: user?.nickname || 'Unknown Commander',
-                  avatarColor: user?.avatarColor || '#3b82f6',
-                  avatarIcon: user?.avatarIcon || 'user',
-                  maxCoins: engineStats.maxCoins,
-                  maxLevel: engineStats.maxLevel,
-                  difficulty: engineStats.difficulty || 'MEDIUM', 
-                  timestamp: Date.now()
-              };
-
-              const existingIndex = currentLeaderboard.findIndex(e => e.nickname === newEntry.nickname && e.difficulty === newEntry.difficulty);
-              let shouldUpdate = false;
-
-              if (existingIndex > -1) {
-                  const existing = currentLeaderboard[existingIndex];
-                  const existingScore = existing.maxCoins + existing.maxLevel * 100;
-                  const newScore = newEntry.maxCoins + newEntry.maxLevel * 100;
-                  
-                  if (newScore > existingScore) {
-                      currentLeaderboard[existingIndex] = newEntry;
-                      shouldUpdate = true;
-                  }
-              } else {
-                  currentLeaderboard.push(newEntry);
-                  shouldUpdate = true;
-              }
-
-              if (shouldUpdate) {
-                  currentLeaderboard.sort((a, b) => {
-                      const scoreA = a.maxCoins + (a.maxLevel * 100);
-                      const scoreB = b.maxCoins + (b.maxLevel * 100);
-                      return scoreB - scoreA;
-                  });
-                  leaderboardUpdated = true;
-                  localStorage.setItem(LEADERBOARD_STORAGE_KEY, JSON.stringify(currentLeaderboard));
-              }
-          }
-
-          set(state => ({ 
-              session: result.state,
-              toast: newToast,
-              leaderboard: leaderboardUpdated ? currentLeaderboard : state.leaderboard,
-          }));
-      }
+      // Audio, effects, toasts & leaderboard already ran as engine event listeners
+      set({ session: engine.state });
   }
 }));
\ No newline at end of file
@@ -15,7 +15,13 @@
 
 
 
-export type HexCoord = { q: number; r: number; upgrade?: boolean; intent?: 'UPGRADE' | 'RECOVER' };
+export type HexCoord = { q: number; r: number; upgrade?: boolean; intent?: 'UPGRADE' | 'RECOVER' | 'CAPTURE' | 'REPAIR'; payWith?: RepairPayment };
+
+// What a REPAIR channel spends per restored durability point (rules/repair.ts)
+export type RepairPayment = 'COINS' | 'MOVES';
+
+// Buildable structures (see rules/structures.ts)
+export type StructureType = 'MINE' | 'BARRIER' | 'CAPITAL';
 
 // Read-only view of a Hex for the Bot (Architecture Requirement)
 export interface HexView {
@@ -24,7 +30,7 @@ export interface HexView {
   r: number;
   currentLevel: number;
   maxLevel: number;
-  structureType?: 'NONE' | 'BARRIER' | 'MINE' | 'CAPITAL' | 'VOID'; // Added VOID
+  structureType?: 'NONE' | StructureType | 'VOID' | 'BRIDGE'; // VOID: collapsed hole. BRIDGE: walkable, unownable span over a hole
   ownerId?: string; 
 }
 
@@ -34,9 +40,17 @@ export interface Hex extends HexView {
   revealed: boolean;
   structureHp?: number;
   durability?: number; // New: Lives for Level 1 hexes
-  mineTimer?: number;
+  mineDueAt?: number; // MINE: SessionState.tick of the next payout or raid (set on the first tick after the build)
+  pressureTimer?: number; // BARRIER: ticks under pressure since the last wear
+  raidTimer?: number; // CAPITAL: ticks occupied by a rival since the last raid
+  collapsedAt?: number; // VOID/BRIDGE: SessionState.tick of the collapse (rules/terrain.ts regeneration)
   trap?: { active: boolean, potency?: number } | null;
-  attackPoint?: number;
+  attackPoint?: number; // Capture progress toward the next drain (ticks)
+  // Decay toward losing a current level (rules/decay.ts): decayPoint accumulated by SessionState.tick decaySince,
+  // growing by decayRate per tick since. Rewritten only when the rate changes or a level is lost.
+  decayPoint?: number;
+  decayRate?: number;
+  decaySince?: number;
   movePoint?: number;
 }
 
@@ -70,6 +84,45 @@ export interface BotMemory {
   stuckCounter: number;
   lastActionFailed?: boolean;
   failReason?: string;
+  knownTraps?: string[]; // Hex keys where this bot sprang a trap (most recent last)
+}
+
+// Economic ledger (engine/Ledger.ts): every change to an entity's coins or moves, and why
+export type LedgerResource = 'COINS' | 'MOVES';
+
+export type LedgerReason =
+  | 'MOVE'          // Path payment (ActionProcessor)
+  | 'RECHARGE'      // Coins exchanged for a move
+  | 'STRUCTURE'     // Building a MINE / BARRIER / CAPITAL
+  | 'TRAP'          // Arming a trap
+  | 'BRIDGE'        // Bridging a VOID hex
+  | 'UPGRADE'       // Level cost (GrowthSystem)
+  | 'GROWTH'        // Level reward (GrowthSystem)
+  | 'RECOVERY'      // Recovery reward (GrowthSystem)
+  | 'REPAIR'        // Durability point paid for (GrowthSystem)
+  | 'TRAP_SPRUNG'   // Drained by a rival's trap (MovementSystem)
+  | 'CAPITAL_LOST'  // Penalty for losing a capital
+  | 'MINE'          // Mine income (StructureSystem)
+  | 'TERRITORY'     // Territory income (EconomySystem)
+  | 'UPKEEP';       // Upkeep bill (DecaySystem)
+
+export interface LedgerEntry {
+  resource: LedgerResource;
+  amount: number; // Signed: positive = earned, negative = spent
+  reason: LedgerReason;
+  tick: number; // SessionState.tick when it happened
+  q?: number; // Related hex, if any
+  r?: number;
+}
+
+export interface LedgerTotal {
+  earned: number;
+  spent: number; // Positive
+}
+
+export interface EntityLedger {
+  entries: LedgerEntry[]; // Most recent first, capped at SAFETY_CONFIG.MAX_LEDGER_ENTRIES
+  totals: Record<LedgerResource, Partial<Record<LedgerReason, LedgerTotal>>>; // Lifetime sums
 }
 
 export interface Entity {
@@ -90,13 +143,27 @@ export interface Entity {
   
   memory?: BotMemory; 
   avatarColor?: string; 
-  attackTokens?: number;
+  attackTokens?: number; // Spent on hostile capture (rules/capture.ts)
   
   // Track if "Recovery" ability was used on the current hex
   recoveredCurrentHex?: boolean; 
   
   // Timestamp of the last physical move to throttle logic to animation speed
   lastMoveTime?: number; 
+
+  // Ticks left in EntityState.LOCKED (sprung trap)
+  lockedTicks?: number;
+
+  // Territory income (EconomySystem): ticks since the last payout, and the fractional coins carried over
+  incomeTimer?: number;
+  incomeCarry?: number;
+
+  // Upkeep (DecaySystem): ticks since the last bill, and whether the last bill went unpaid
+  upkeepTimer?: number;
+  inArrears?: boolean;
+
+  // Every coins/moves change; written only through engine/Ledger.ts (Copy-On-Write)
+  ledger?: EntityLedger;
 }
 
 export type GameEventType = 
@@ -111,15 +178,51 @@ export type GameEventType =
   | 'BOT_LOG'
   | 'LEADERBOARD_UPDATE'
   | 'RECOVERY_USED'
-  | 'HEX_COLLAPSE'; // Added event type
+  | 'HEX_COLLAPSE' // Added event type
+  | 'STRUCTURE_DESTROYED'
+  | 'TRAP_TRIGGERED'
+  | 'SECTOR_DRAINED'
+  | 'SECTOR_CAPTURED'
+  | 'SECTOR_DECAYED'
+  | 'UPKEEP_UNPAID'
+  | 'VOID_REGENERATED'
+  | 'SECTOR_REPAIRED'
+  | 'INCOME_PAYOUT';
+
+// Typed `data` payload per event type (undefined = no payload)
+export interface GameEventPayloads {
+  LEVEL_UP: undefined;
+  SECTOR_ACQUIRED: undefined;
+  MOVE_COMPLETE: undefined;
+  ERROR: undefined;
+  VICTORY: undefined;
+  DEFEAT: undefined;
+  GROWTH_TICK: undefined;
+  ACTION_DENIED: undefined;
+  BOT_LOG: undefined;
+  LEADERBOARD_UPDATE: { entry: Partial<LeaderboardEntry> };
+  RECOVERY_USED: undefined;
+  HEX_COLLAPSE: { q: number; r: number };
+  STRUCTURE_DESTROYED: { q: number; r: number; structureType: StructureType };
+  TRAP_TRIGGERED: { q: number; r: number; ownerId?: string; movesLost: number; coinsLost: number; lockTicks: number };
+  SECTOR_DRAINED: { q: number; r: number; ownerId: string; level: number };
+  SECTOR_CAPTURED: { q: number; r: number; previousOwnerId: string };
+  SECTOR_DECAYED: { q: number; r: number; level: number };
+  UPKEEP_UNPAID: { owed: number; paid: number };
+  VOID_REGENERATED: { q: number; r: number };
+  SECTOR_REPAIRED: { q: number; r: number; durability: number };
+  INCOME_PAYOUT: { amount: number; sectors: number };
+}
 
-export interface GameEvent {
-  type: GameEventType;
+export type GameEventOf<T extends GameEventType> = T extends GameEventType ? {
+  type: T;
   entityId?: string;
   message?: string;
-  data?: Record<string, unknown>;
   timestamp: number;
-}
+} & (GameEventPayloads[T] extends undefined ? { data?: undefined } : { data: GameEventPayloads[T] }) : never;
+
+// Discriminated union over `type`: narrowing on type narrows `data`
+export type GameEvent = GameEventOf<GameEventType>;
 
 export interface BotLogEntry {
   botId: string;
@@ -159,6 +262,8 @@ export interface PendingConfirmation {
     path: HexCoord[];
     costMoves: number;
     costCoins: number;
+    // Long-distance moves: final destination, `path` is only the first segment
+    routeTarget?: HexCoord;
   };
 }
 
@@ -196,8 +301,11 @@ export interface FloatingText {
 // Authoritative state for a single game session, managed by GameEngine
 export interface SessionState {
   stateVersion: number;
+  tick: number; // Simulation ticks processed (GameEngine.processTick only): the time base of timed rules
   sessionId: string; 
   sessionStartTime: number; 
+  seed: number; // Seed the session was created from (reproducibility)
+  rngState: number; // Current SeededRandom state, advanced by the simulation
   winCondition: WinCondition | null;
   difficulty: Difficulty;
   grid: Record<string, Hex>; 
@@ -229,13 +337,16 @@ export interface GameState {
 }
 
 export type MoveAction = { type: 'MOVE'; path: { q: number; r: number }[]; stateVersion?: number };
-export type UpgradeAction = { type: 'UPGRADE'; coord: { q: number; r: number }; intent?: 'UPGRADE' | 'RECOVER'; upgradeType?: 'DEFAULT' | 'BARRIER' | 'MINE' | 'CAPITAL'; stateVersion?: number };
+export type UpgradeAction = { type: 'UPGRADE'; coord: { q: number; r: number }; intent?: 'UPGRADE' | 'RECOVER' | 'CAPTURE'; upgradeType?: 'DEFAULT' | StructureType; stateVersion?: number };
 export type WaitAction = { type: 'WAIT'; stateVersion?: number };
 export type RechargeAction = { type: 'RECHARGE_MOVE'; stateVersion?: number };
+export type ArmTrapAction = { type: 'ARM_TRAP'; coord: { q: number; r: number }; stateVersion?: number };
+export type BuildBridgeAction = { type: 'BUILD_BRIDGE'; coord: { q: number; r: number }; stateVersion?: number };
+export type RepairAction = { type: 'REPAIR'; coord: { q: number; r: number }; payWith: RepairPayment; stateVersion?: number };
 
 // FIX: Added missing BotAction type, which is a subset of actions the AI can take.
-export type BotAction = MoveAction | UpgradeAction | WaitAction | RechargeAction;
-export type GameAction = BotAction | RechargeAction;
+export type BotAction = MoveAction | UpgradeAction | WaitAction | RechargeAction | BuildBridgeAction | RepairAction;
+export type GameAction = BotAction | RechargeAction | ArmTrapAction;
 
 // Validates result of logic before execution (Architecture Requirement)
 export interface ValidationResult {
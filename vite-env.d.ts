@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface Window {
+  // Dev builds: serialized session of the latest invariant violation (see reportInvariantViolation in store.ts)
+  __lastInvariantDump?: string;
+}